@@ -0,0 +1,155 @@
+import { BackupError } from './errors';
+
+/**
+ * Data an async storage adapter can hold. Bytes are only stored with binary compression. @see StorageOptions.compression
+ */
+export type StoredData = string | Uint8Array;
+
+/**
+ * Asynchronous key/value storage used by @see saveToStorageAsync and @see loadFromStorageAsync.
+ * Adapters store strings by default. Adapters storing bytes (Uint8Array) can be used with binary compression.
+ */
+export interface AsyncStorageAdapter<Value extends StoredData = string> {
+  // Property syntax keeps string adapters from being passed where bytes can be stored
+
+  /** Gets the value stored at a key, or undefined if there is none */
+  get: (key: string) => Promise<Value | undefined>;
+
+  /** Stores a value at a key */
+  set: (key: string, value: Value) => Promise<void>;
+
+  /** Removes a key (does nothing if it doesn't exist) */
+  remove: (key: string) => Promise<void>;
+
+  /** Lists all keys in the storage */
+  keys: () => Promise<string[]>;
+}
+
+/**
+ * Makes sure a string adapter isn't given bytes, which it would store mangled
+ * @param value Value to store
+ * @param adapter Name of the adapter, for the error message
+ */
+function requireString(value: StoredData, adapter: string): string {
+  if (typeof value !== 'string') {
+    throw new BackupError(
+      `The ${adapter} adapter can only store strings. Use 'utf16' compression instead of 'binary'.`
+    );
+  }
+  return value;
+}
+
+/**
+ * Creates an async storage adapter wrapping a DOM storage object
+ * @param storage Storage to wrap (localStorage or sessionStorage)
+ */
+export function createStorageAdapter(storage: Storage): AsyncStorageAdapter {
+  return {
+    get: async key => storage.getItem(key) ?? undefined,
+    set: async (key, value) =>
+      storage.setItem(key, requireString(value, 'storage')),
+    remove: async key => storage.removeItem(key),
+    keys: async () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) {
+          keys.push(key);
+        }
+      }
+      return keys;
+    },
+  };
+}
+
+/**
+ * Creates an async storage adapter that keeps everything in memory. Useful for tests.
+ * Use `createMemoryAdapter<Uint8Array>()` to store bytes.
+ * @param initial Initial contents of the storage
+ */
+export function createMemoryAdapter<Value extends StoredData = string>(
+  initial: Record<string, Value> = {}
+): AsyncStorageAdapter<Value> {
+  const items = new Map(Object.entries(initial));
+  return {
+    get: async key => items.get(key),
+    set: async (key, value) => {
+      items.set(key, value);
+    },
+    remove: async key => {
+      items.delete(key);
+    },
+    keys: async () => Array.from(items.keys()),
+  };
+}
+
+/**
+ * The subset of Node's `fs.promises` API used by @see createFileSystemAdapter
+ */
+export interface FileSystemPromises {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  unlink(path: string): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+}
+
+/**
+ * Creates an async storage adapter that stores each key as a file in a directory.
+ * The file system is passed in so this package never imports Node modules itself.
+ * @param fs Node's `fs.promises` (or a compatible implementation)
+ * @param directory Directory to store files in. Created on first write.
+ */
+export function createFileSystemAdapter(
+  fs: FileSystemPromises,
+  directory: string
+): AsyncStorageAdapter {
+  // Keys are encoded so they're always valid file names. The dots of "." and ".." are encoded too, since those name directories
+  const pathOf = (key: string) =>
+    `${directory}/${
+      key === '.' || key === '..'
+        ? key.replace(/\./g, '%2E')
+        : encodeURIComponent(key)
+    }`;
+
+  // Missing files and directories just mean nothing was stored
+  const isMissing = (error: { code?: string }) => error.code === 'ENOENT';
+
+  return {
+    get: async key => {
+      try {
+        return await fs.readFile(pathOf(key), 'utf8');
+      } catch (error) {
+        if (isMissing(error)) {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    set: async (key, value) => {
+      const text = requireString(value, 'file system');
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(pathOf(key), text, 'utf8');
+    },
+    remove: async key => {
+      try {
+        await fs.unlink(pathOf(key));
+      } catch (error) {
+        if (!isMissing(error)) {
+          throw error;
+        }
+      }
+    },
+    keys: async () => {
+      try {
+        const files = await fs.readdir(directory);
+        return files.map(file => decodeURIComponent(file));
+      } catch (error) {
+        if (isMissing(error)) {
+          return [];
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -1,34 +1,128 @@
+import {
+  BackupMigrations,
+  BackupVersionOptions,
+  getCurrentVersion,
+  getSliceVersions,
+  isVersionedBackup,
+  migrateBackup,
+  VersionedBackup,
+} from './version';
+import {
+  BackupDependencyCheck,
+  checkDeclaredDependency,
+  isNestedInterface,
+} from './dependencies';
+import {
+  BackupDependencyError,
+  BackupValidationError,
+  SliceLoadError,
+} from './errors';
+import { Validator } from './validate';
+
 /**
  * Converts a state into a save object or undefined (no save)
  */
 export type BackupSaveFunction<S, Stored> = (state: S) => Stored | undefined;
 
 /**
- * Converts a saved object back into its corresponding game state, or undefined (if load failed)
+ * Converts a saved object back into its corresponding game state, or undefined (if load failed).
+ * Parent is the state containing the slice, and Grandparent the state containing that (for nested state interfaces)
  */
-export type BackupLoadFunction<S, Stored, Parent = unknown> = (
+export type BackupLoadFunction<
+  S,
+  Stored,
+  Parent = unknown,
+  Grandparent = unknown
+> = (
   state: Stored | undefined,
-  dependencyLoader: DependencyLoader<Parent>
+  dependencyLoader: DependencyLoader<Parent, Grandparent>
 ) => S | undefined;
 
 /**
  * An interface to save and load a slice from a blackup
  */
-export type SliceBackupInterface<S, Stored, Parent = unknown> = {
+export type SliceBackupInterface<
+  S,
+  Stored,
+  Parent = unknown,
+  Grandparent = unknown
+> = {
   /** Saves the slice to a stored backup */
   save: BackupSaveFunction<S, Stored>;
 
   /** Loads the slice from a stored backup */
-  load: BackupLoadFunction<S, Stored, Parent>;
+  load: BackupLoadFunction<S, Stored, Parent, Grandparent>;
+
+  /** Schema version of the stored data. Defaults to the number of migrations */
+  version?: number;
+
+  /** Migrations to upgrade stored data from older versions before it is loaded. @see migrateBackup */
+  migrations?: BackupMigrations<Stored>;
+
+  /** Checks the stored data has the right shape before it's loaded. @see isObjectOf */
+  validate?: Validator<Stored>;
+
+  /** Used in place of the slice if it fails to load, with the 'fallback' error policy. @see loadBackupWithReport */
+  fallback?: S;
+
+  /** Slices this slice needs while loading: keys in the same state, or key paths from the root state. @see validateDependencies */
+  dependsOn?: (string | string[])[];
+};
+
+/**
+ * Converts a saved object back into its corresponding game state, or undefined (if load failed). May return a promise
+ */
+export type AsyncBackupLoadFunction<
+  S,
+  Stored,
+  Parent = unknown,
+  Grandparent = unknown
+> = (
+  state: Stored | undefined,
+  dependencyLoader: AsyncDependencyLoader<Parent, Grandparent>
+) => S | undefined | Promise<S | undefined>;
+
+/**
+ * An interface to save and load a slice from a backup, where loading can be asynchronous. @see loadBackupAsync
+ */
+export type AsyncSliceBackupInterface<
+  S,
+  Stored,
+  Parent = unknown,
+  Grandparent = unknown
+> = Omit<SliceBackupInterface<S, Stored, Parent, Grandparent>, 'load'> & {
+  /** Loads the slice from a stored backup */
+  load: AsyncBackupLoadFunction<S, Stored, Parent, Grandparent>;
+};
+
+/**
+ * Interface to save and load a state, where loading can be asynchronous. @see loadBackupAsync
+ * Parent is the state containing this one, for nested state interfaces
+ */
+export type AsyncStateBackupInterface<S, Parent = unknown> = {
+  [K in keyof S]?:
+    | AsyncSliceBackupInterface<S[K], any, S, Parent>
+    | AsyncStateBackupInterface<S[K], S>;
 };
 
 /**
  * Interface to save and load a state.
- * Define one SliceBackupInterface or StateBackupInterface for each key you want to support save/load
+ * Define one SliceBackupInterface or StateBackupInterface for each key you want to support save/load.
+ * Parent is the state containing this one, for nested state interfaces
  */
-export type StateBackupInterface<S> = {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  [K in keyof S]?: SliceBackupInterface<S[K], any> | StateBackupInterface<S[K]>;
+export type StateBackupInterface<S, Parent = unknown> = {
+  [K in keyof S]?:
+    | SliceBackupInterface<S[K], any, S, Parent> // eslint-disable-line @typescript-eslint/no-explicit-any
+    | StateBackupInterface<S[K], S>;
+};
+
+/**
+ * Any interface that can save a state, such as a @see StateBackupInterface or @see AsyncStateBackupInterface
+ */
+export type StateSaveInterface<S> = {
+  [K in keyof S]?:
+    | { save: BackupSaveFunction<S[K], unknown> }
+    | StateSaveInterface<S[K]>;
 };
 
 // If BackupInterface[K] is undefined, this resolves to undefined.
@@ -36,7 +130,7 @@ export type StateBackupInterface<S> = {
 // If BackupInterface[K] is a state backup interface, resolve to the result of calling createBackup using it
 type TypeOfStoredKey<
   S,
-  BackupInterface extends StateBackupInterface<S>,
+  BackupInterface extends StateSaveInterface<S>,
   K extends keyof BackupInterface & keyof S
 > = BackupInterface[K] extends undefined
   ? undefined
@@ -47,7 +141,7 @@ type TypeOfStoredKey<
 /**
  * Type created by calling createBackup on a store with a given config and storage interface
  */
-export type StoredState<S, BackupInterface extends StateBackupInterface<S>> = {
+export type StoredState<S, BackupInterface extends StateSaveInterface<S>> = {
   [K in keyof (BackupInterface | S)]: TypeOfStoredKey<S, BackupInterface, K>;
 };
 
@@ -63,8 +157,44 @@ export type StateOrSlice = Record<string, unknown>;
  */
 export function createBackup<
   S extends StateOrSlice,
-  BackupInterface extends StateBackupInterface<S>
->(state: S, backupInterface: BackupInterface): StoredState<S, BackupInterface> {
+  BackupInterface extends StateSaveInterface<S>
+>(state: S, backupInterface: BackupInterface): StoredState<S, BackupInterface>;
+
+/**
+ * Creates a new backup from the state, stamped with the current schema versions
+ * @param state State to backup
+ * @param backupInterface Backup creation interface
+ * @param versionOptions Global versioning options
+ */
+export function createBackup<
+  S extends StateOrSlice,
+  BackupInterface extends StateSaveInterface<S>
+>(
+  state: S,
+  backupInterface: BackupInterface,
+  versionOptions: BackupVersionOptions<StoredState<S, BackupInterface>>
+): VersionedBackup<StoredState<S, BackupInterface>>;
+
+export function createBackup<
+  S extends StateOrSlice,
+  BackupInterface extends StateSaveInterface<S>
+>(
+  state: S,
+  backupInterface: BackupInterface,
+  versionOptions?: BackupVersionOptions<StoredState<S, BackupInterface>>
+):
+  | StoredState<S, BackupInterface>
+  | VersionedBackup<StoredState<S, BackupInterface>> {
+  // Stamp the backup with its versions if requested
+  if (versionOptions) {
+    return {
+      $versioned: 1,
+      backupVersion: getCurrentVersion(versionOptions),
+      sliceVersions: getSliceVersions(backupInterface),
+      data: createBackup(state, backupInterface),
+    };
+  }
+
   // We'll be storing all our data in here
   const stored: Record<string, unknown> = {};
 
@@ -93,73 +223,406 @@ export function createBackup<
 
 type UpdateType<T> = Partial<T>;
 
-export interface DependencyLoader<S> {
-  needs: <K extends keyof S & string>(key: K) => S[K];
+export interface DependencyLoader<S, Parent = unknown> {
+  /** Gets a slice of the same state, loading it first. Pass a key path instead to get any slice, starting from the root state */
+  needs: {
+    <K extends keyof S & string>(key: K): S[K];
+    <T = unknown>(path: string[]): T;
+  };
   update: <K extends keyof S & string>(
     key: K,
     update: UpdateType<S[K]>
   ) => void;
+
+  /** Dependency loader of the state containing this one. Undefined for the root state */
+  parent?: DependencyLoader<Parent>;
 }
 
-function LoadKey<
-  S extends StateOrSlice,
-  BackupInterface extends StateBackupInterface<S>
->(
-  state: Partial<S>,
-  backupInterface: BackupInterface,
-  store: StoredState<S, BackupInterface>,
-  key: keyof S & string,
-  loaded: StateOrSlice,
-  dependencyLoader: DependencyLoader<S>,
-  loadedKeys: Set<string>,
-  loadQueue: Set<string>
-): void {
-  // Mark as loaded
-  if (loadedKeys.has(key)) {
-    throw new Error(`Somehow we loaded the same key ${key} twice...`);
-  }
-  loadedKeys.add(key);
+export interface AsyncDependencyLoader<S, Parent = unknown> {
+  /** Waits for a slice of the same state to load. Pass a key path instead to wait for any slice, starting from the root state */
+  needs: {
+    <K extends keyof S & string>(key: K): Promise<S[K]>;
+    <T = unknown>(path: string[]): Promise<T>;
+  };
+  update: <K extends keyof S & string>(
+    key: K,
+    update: UpdateType<S[K]>
+  ) => Promise<void>;
 
-  // Get the loader
-  const loader = backupInterface[key];
-  if (!loader) {
-    return;
+  /** Dependency loader of the state containing this one. Undefined for the root state */
+  parent?: AsyncDependencyLoader<Parent>;
+}
+
+/**
+ * Applies a dependency update to a loaded slice
+ * @param loaded Loaded slices
+ * @param key Key to update
+ * @param update Value or partial update
+ */
+function applyUpdate(loaded: StateOrSlice, key: string, update: unknown) {
+  // If it's a non-object type
+  if (
+    typeof update === 'number' ||
+    typeof update === 'string' ||
+    Array.isArray(update)
+  ) {
+    // Just do a set
+    loaded[key] = update;
+  } else {
+    // Otherwise, do a partial update
+    const prev = loaded[key] as {};
+    loaded[key] = { ...prev, ...(update as {}) };
+  }
+}
+
+/**
+ * What to do when a slice fails to load. @see loadBackupWithReport
+ * - 'throw' fails the whole load by throwing a @see SliceLoadError
+ * - 'skip' keeps the existing state for the slice
+ * - 'fallback' uses the slice interface's fallback value, or keeps the existing state if it has none
+ */
+export type BackupLoadErrorPolicy = 'throw' | 'skip' | 'fallback';
+
+/**
+ * Options for @see loadBackupWithReport
+ */
+export interface BackupLoadOptions<Stored> {
+  /** What to do when a slice fails to load. Defaults to 'throw' */
+  onError?: BackupLoadErrorPolicy;
+
+  /** Global versioning options. @see migrateBackup */
+  versionOptions?: BackupVersionOptions<Stored>;
+
+  /** Warns, throws, or reports a @see BackupDependencyError when a slice needs a slice it doesn't declare in dependsOn */
+  strictDependencies?: BackupDependencyCheck;
+}
+
+/**
+ * Result of @see loadBackupWithReport
+ */
+export interface BackupLoadReport<S> {
+  /** The loaded state */
+  state: Partial<S>;
+
+  /** Key paths of the slices that loaded */
+  loaded: string[][];
+
+  /** Errors of the slices that failed to load */
+  errors: SliceLoadError[];
+}
+
+/** Shared state of a load operation, across nested state interfaces */
+interface LoadContext {
+  /** Error policy */
+  onError: BackupLoadErrorPolicy;
+
+  /** Report being filled in */
+  report: Omit<BackupLoadReport<unknown>, 'state'>;
+
+  /** Key paths of the slices being loaded, outermost first */
+  loading: string[][];
+
+  /** Root backup interface */
+  root: StateBackupInterface<StateOrSlice>;
+
+  /** Whether to check slices only need declared dependencies */
+  strictDependencies: BackupDependencyCheck | undefined;
+}
+
+/** A state interface being loaded. Nested state interfaces get their own scope */
+interface LoadScope {
+  /** Key path of the state interface */
+  path: string[];
+
+  /** Current state */
+  state: Partial<StateOrSlice>;
+
+  /** Backup interface of the state */
+  backupInterface: StateBackupInterface<StateOrSlice>;
+
+  /** Stored backup of the state */
+  stored: Record<string, unknown>;
+
+  /** Slices loaded so far */
+  loaded: StateOrSlice;
+
+  /** Keys that are loaded or loading */
+  loadedKeys: Set<string>;
+
+  /** Scope of the state containing this one. Undefined for the root state */
+  parent: LoadScope | undefined;
+
+  /** Scopes of nested state interfaces, created when first needed */
+  children: Map<string, LoadScope>;
+
+  /** Dependency loader given to the slices in this scope */
+  dependencyLoader: DependencyLoader<StateOrSlice>;
+}
+
+/**
+ * Makes sure stored data passes a slice's validator before it's loaded. Throws @see BackupValidationError if it doesn't
+ * @param loader Slice backup interface
+ * @param stored Stored data for the slice
+ * @param path Key path of the slice
+ */
+function validateStored(
+  loader: { validate?: Validator<unknown> },
+  stored: unknown,
+  path: string[]
+) {
+  // Nothing stored is always allowed. Load functions handle undefined
+  if (loader.validate && stored !== undefined && !loader.validate(stored)) {
+    throw new BackupValidationError(path, stored);
+  }
+}
+
+/**
+ * Finds the scope of a nested state interface by its key path from the root state. Throws @see BackupDependencyError if there isn't one
+ * @param scope Any scope in the load
+ * @param path Key path of the nested state interface
+ * @param getChild Gets the scope of a nested state interface in a scope
+ */
+function findScope<Scope extends { parent: Scope | undefined }>(
+  scope: Scope,
+  path: string[],
+  getChild: (scope: Scope, key: string) => Scope | undefined
+): Scope {
+  // Paths start at the root state
+  let found = scope;
+  while (found.parent) {
+    found = found.parent;
+  }
+
+  for (let i = 0; i < path.length; i++) {
+    const child = getChild(found, path[i]);
+    if (!child) {
+      throw new BackupDependencyError(
+        `There is no nested state interface at ${path
+          .slice(0, i + 1)
+          .join('.')}.`,
+        [path.slice(0, i + 1)]
+      );
+    }
+    found = child;
+  }
+  return found;
+}
+
+/**
+ * Creates the scope to load a state interface in
+ * @param state Current state
+ * @param backupInterface Backup interface of the state
+ * @param stored Stored backup of the state
+ * @param path Key path of the state
+ * @param parent Scope of the state containing this one
+ * @param context Shared state of the load
+ */
+function createLoadScope(
+  state: Partial<StateOrSlice>,
+  backupInterface: StateBackupInterface<StateOrSlice>,
+  stored: Record<string, unknown>,
+  path: string[],
+  parent: LoadScope | undefined,
+  context: LoadContext
+): LoadScope {
+  const scope: LoadScope = {
+    path,
+    state,
+    backupInterface,
+    stored: stored ?? {},
+    loaded: {},
+    loadedKeys: new Set(),
+    parent,
+    children: new Map(),
+    dependencyLoader: {
+      needs: (keyOrPath: string | string[]) => {
+        checkNeeds(
+          context,
+          Array.isArray(keyOrPath) ? keyOrPath : [...path, keyOrPath]
+        );
+
+        // Key paths can point anywhere in the backup
+        if (Array.isArray(keyOrPath)) {
+          const target = findScope(scope, keyOrPath.slice(0, -1), (s, k) =>
+            getChildScope(s, k, context)
+          );
+          const key = keyOrPath[keyOrPath.length - 1];
+          LoadKey(target, key, context);
+          return target.loaded[key];
+        }
+
+        // If we haven't loaded that slice, load it
+        LoadKey(scope, keyOrPath, context);
+        return scope.loaded[keyOrPath];
+      },
+
+      update(innerKey, update) {
+        // Make sure that slice is loaded
+        checkNeeds(context, [...path, innerKey]);
+        LoadKey(scope, innerKey, context);
+        applyUpdate(scope.loaded, innerKey, update);
+      },
+
+      parent: parent?.dependencyLoader,
+    } as DependencyLoader<StateOrSlice>,
+  };
+
+  return scope;
+}
+
+/**
+ * Gets (or creates) the scope of a nested state interface
+ * @param container Scope containing the nested state interface
+ * @param key Key of the nested state interface
+ * @param context Shared state of the load
+ * @returns The scope, or undefined if the key doesn't hold a nested state interface
+ */
+function getChildScope(
+  container: LoadScope,
+  key: string,
+  context: LoadContext
+): LoadScope | undefined {
+  const nested = container.backupInterface[key];
+  if (!isNestedInterface(nested)) {
+    return undefined;
+  }
+
+  let child = container.children.get(key);
+  if (!child) {
+    child = createLoadScope(
+      (container.state[key] ?? {}) as StateOrSlice,
+      nested as StateBackupInterface<StateOrSlice>,
+      container.stored[key] as Record<string, unknown>,
+      [...container.path, key],
+      container,
+      context
+    );
+    container.children.set(key, child);
+  }
+  return child;
+}
+
+/**
+ * Makes sure the slice being loaded declared a dependency it needs, in strict mode
+ * @param context Shared state of the load
+ * @param dependency Key path of the dependency
+ */
+function checkNeeds(context: LoadContext, dependency: string[]) {
+  const slice = context.loading[context.loading.length - 1];
+  if (context.strictDependencies && slice) {
+    checkDeclaredDependency(
+      context.root,
+      slice,
+      dependency,
+      context.strictDependencies
+    );
+  }
+}
+
+function LoadKey(scope: LoadScope, key: string, context: LoadContext): void {
+  const path = [...scope.path, key];
+
+  // Make sure we're not in a circular dependency (across nested state interfaces too)
+  const start = context.loading.findIndex(
+    loading =>
+      loading.length === path.length &&
+      loading.every((part, i) => part === path[i])
+  );
+  if (start !== -1) {
+    const circle = [...context.loading.slice(start), path];
+    throw new BackupDependencyError(
+      `Circular dependency in loadBackup: ${circle.map(keys =>
+        keys.join('.')
+      )}.`,
+      circle
+    );
   }
 
   // Make sure we haven't already loaded this
-  if (loaded[key] !== undefined) {
+  if (scope.loadedKeys.has(key)) {
     return;
   }
+  scope.loadedKeys.add(key);
 
-  // Make sure we're not in a circular dependency
-  if (loadQueue.has(key)) {
-    const circle = Array.from(loadQueue.values());
-    circle.push(key);
-    throw new Error(`Circular dependency in loadBackup: ${circle}.`);
+  // Get the loader
+  const loader = scope.backupInterface[key];
+  if (!loader) {
+    return;
   }
 
   // Push to load queue
-  loadQueue.add(key);
+  context.loading.push(path);
 
-  // If there is a save function, this is a slice loader
-  if ('load' in loader && typeof loader.load === 'function') {
-    // Run a save operation
-    loaded[key] = loader.load(store[key], dependencyLoader);
+  // If there is a load function, this is a slice loader
+  if (!isNestedInterface(loader)) {
+    const sliceLoader = loader as SliceBackupInterface<unknown, unknown>;
+    const stored = scope.stored[key];
+    try {
+      validateStored(sliceLoader, stored, path);
+
+      // Run a load operation
+      scope.loaded[key] = sliceLoader.load(stored, scope.dependencyLoader);
+      context.report.loaded.push(path);
+    } catch (error) {
+      // Errors from slices this one depends on have already been handled. Dependency errors are always fatal
+      if (
+        (error instanceof SliceLoadError && context.onError === 'throw') ||
+        error instanceof BackupDependencyError
+      ) {
+        throw error;
+      }
+
+      const loadError = new SliceLoadError(path, error, stored);
+      if (context.onError === 'throw') {
+        throw loadError;
+      }
+      context.report.errors.push(loadError);
+
+      // Keep the existing state unless there's a fallback to use
+      scope.loaded[key] =
+        context.onError === 'fallback' && sliceLoader.fallback !== undefined
+          ? sliceLoader.fallback
+          : scope.state[key];
+    } finally {
+      // Remove from load queue
+      context.loading.pop();
+    }
   } else {
-    // Otherwise, this is a state interface embedded in a state interface. Use loadBackup recursively
-    // @ts-ignore
-    loaded[key] = loadBackup(state[key] ?? {}, loader, store[key]);
+    // Otherwise, this is a state interface embedded in a state interface. Load it in its own scope
+    try {
+      const child = getChildScope(scope, key, context) as LoadScope;
+      scope.loaded[key] = loadState(child, context);
+    } finally {
+      // Remove from load queue
+      context.loading.pop();
+    }
+  }
+}
+
+/**
+ * Loads every slice of a state interface (and nested state interfaces)
+ * @param scope Scope of the state interface
+ * @param context Error policy, report and slices being loaded
+ */
+function loadState(scope: LoadScope, context: LoadContext): StateOrSlice {
+  // Iterate keys in the storage interface. Keys already loaded as dependencies are skipped
+  for (const key in scope.backupInterface) {
+    LoadKey(scope, key, context);
   }
 
-  // Remove from load queue
-  loadQueue.delete(key);
+  // Combine with existing state
+  return { ...scope.state, ...scope.loaded };
 }
 
 /**
- * Loads a backup into the state
+ * Loads a backup into the state.
+ * Versioned backups, or any backup when versionOptions is passed, are migrated first. @see migrateBackup
+ * Throws a @see SliceLoadError if any slice fails to load. Use @see loadBackupWithReport to recover from failed slices instead
  * @param state Current state
  * @param backupInterface Backup creation interface
  * @param store Backup to load
+ * @param versionOptions Global versioning options
+ * @param strictDependencies Warns, throws, or reports a @see BackupDependencyError when a slice needs a slice it doesn't declare in dependsOn
  */
 export function loadBackup<
   S extends StateOrSlice,
@@ -167,86 +630,371 @@ export function loadBackup<
 >(
   state: Partial<S>,
   backupInterface: BackupInterface,
-  store: StoredState<S, BackupInterface>
+  store:
+    | StoredState<S, BackupInterface>
+    | VersionedBackup<StoredState<S, BackupInterface>>,
+  versionOptions?: BackupVersionOptions<StoredState<S, BackupInterface>>,
+  strictDependencies?: BackupDependencyCheck
 ): Partial<S> {
-  // We'll be loading all the state into here
-  const loaded: StateOrSlice = {};
-
-  // Create load queue
-  const loadQueue: Set<string> = new Set();
-  const loadedKeys: Set<string> = new Set();
-
-  // Create dependency loader
-  const dependencyLoader: DependencyLoader<S> = {
-    needs(innerKey) {
-      // If we haven't loaded that slice, load it
-      if (!loadedKeys.has(innerKey)) {
-        LoadKey(
-          state,
-          backupInterface,
-          store,
-          innerKey,
-          loaded,
-          dependencyLoader,
-          loadedKeys,
-          loadQueue
-        );
-      }
+  return loadBackupWithReport(state, backupInterface, store, {
+    versionOptions,
+    strictDependencies,
+  }).state;
+}
 
-      // Then return
-      return loaded[innerKey] as S[typeof innerKey];
-    },
+/**
+ * Loads a backup into the state, reporting which slices loaded and which failed.
+ * Failed slices are handled according to the error policy. @see BackupLoadErrorPolicy
+ * @param state Current state
+ * @param backupInterface Backup creation interface
+ * @param store Backup to load
+ * @param options Error policy, versioning and dependency options
+ */
+export function loadBackupWithReport<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: Partial<S>,
+  backupInterface: BackupInterface,
+  store:
+    | StoredState<S, BackupInterface>
+    | VersionedBackup<StoredState<S, BackupInterface>>,
+  options: BackupLoadOptions<StoredState<S, BackupInterface>> = {}
+): BackupLoadReport<S> {
+  const { versionOptions } = options;
 
-    update(innerKey, update) {
-      // Make sure that slice is loaded
-      if (!loadedKeys.has(innerKey)) {
-        LoadKey(
-          state,
-          backupInterface,
-          store,
-          innerKey,
-          loaded,
-          dependencyLoader,
-          loadedKeys,
-          loadQueue
-        );
-      }
+  // Upgrade old backups before they reach any loaders
+  const stored =
+    versionOptions || isVersionedBackup(store)
+      ? migrateBackup(store, backupInterface, versionOptions)
+      : store;
 
-      // If it's a non-object type
-      if (
-        typeof update === 'number' ||
-        typeof update === 'string' ||
-        Array.isArray(update)
-      ) {
-        // Just do a set
-        loaded[innerKey] = update;
-      } else {
-        // Otherwise, do a partial update
-        const prev = loaded[innerKey] as {};
-        loaded[innerKey] = { ...prev, ...update };
-      }
-    },
+  const report = { loaded: [], errors: [] };
+  const context: LoadContext = {
+    onError: options.onError ?? 'throw',
+    report,
+    loading: [],
+    root: backupInterface as StateBackupInterface<StateOrSlice>,
+    strictDependencies: options.strictDependencies,
   };
+  const loaded = loadState(
+    createLoadScope(
+      state,
+      backupInterface as StateBackupInterface<StateOrSlice>,
+      stored as Record<string, unknown>,
+      [],
+      undefined,
+      context
+    ),
+    context
+  );
+  return { ...report, state: loaded as Partial<S> };
+}
 
-  // Iterate keys in the storage interface
-  for (const key in backupInterface) {
-    // Ignore if we already loaded this key
-    if (loadedKeys.has(key)) {
-      continue;
-    }
+/**
+ * Loads a backup into the state, allowing slice loaders to return promises.
+ * Slices are loaded concurrently. A slice waiting on another with @see AsyncDependencyLoader.needs only waits for that slice.
+ * Versioned backups, or any backup when versionOptions is passed, are migrated first. @see migrateBackup
+ * @param state Current state
+ * @param backupInterface Backup creation interface
+ * @param store Backup to load
+ * @param versionOptions Global versioning options
+ * @param strictDependencies Rejects with a @see BackupDependencyError (or warns or reports it) when a slice needs a slice it doesn't declare in dependsOn
+ */
+export async function loadBackupAsync<
+  S extends StateOrSlice,
+  BackupInterface extends AsyncStateBackupInterface<S>
+>(
+  state: Partial<S>,
+  backupInterface: BackupInterface,
+  store:
+    | StoredState<S, BackupInterface>
+    | VersionedBackup<StoredState<S, BackupInterface>>,
+  versionOptions?: BackupVersionOptions<StoredState<S, BackupInterface>>,
+  strictDependencies?: BackupDependencyCheck
+): Promise<Partial<S>> {
+  // Migrations only look at versions, so the async interface can stand in for a regular one
+  const syncInterface = backupInterface as StateBackupInterface<S>;
+
+  // Upgrade old backups before they reach any loaders
+  const stored = (versionOptions || isVersionedBackup(store)
+    ? migrateBackup(store, syncInterface, versionOptions)
+    : store) as Record<string, unknown>;
 
-    LoadKey(
+  return loadStateAsync(
+    {
+      path: [],
       state,
-      backupInterface,
-      store,
-      key,
-      loaded,
-      dependencyLoader,
-      loadedKeys,
-      loadQueue
-    );
+      backupInterface: backupInterface as AsyncStateBackupInterface<
+        StateOrSlice
+      >,
+      stored,
+      loaded: {},
+      loading: new Map(),
+      parent: undefined,
+      children: new Map(),
+    },
+    {
+      waiting: new Map(),
+      root: backupInterface as AsyncStateBackupInterface<StateOrSlice>,
+      strictDependencies,
+    }
+  ) as Promise<Partial<S>>;
+}
+
+/** Shared state of an async load operation, across nested state interfaces */
+interface AsyncLoadContext {
+  /** Which slices each loading slice (or nested state interface) is waiting on, by key path id. @see getPathId */
+  waiting: Map<string, Set<string>>;
+
+  /** Root backup interface */
+  root: AsyncStateBackupInterface<StateOrSlice>;
+
+  /** Whether to check slices only need declared dependencies */
+  strictDependencies: BackupDependencyCheck | undefined;
+}
+
+/** A state interface being loaded asynchronously. Nested state interfaces get their own scope */
+interface AsyncLoadScope {
+  /** Key path of the state interface */
+  path: string[];
+
+  /** Current state */
+  state: Partial<StateOrSlice>;
+
+  /** Backup interface of the state */
+  backupInterface: AsyncStateBackupInterface<StateOrSlice>;
+
+  /** Stored backup of the state */
+  stored: Record<string, unknown>;
+
+  /** Slices loaded so far */
+  loaded: StateOrSlice;
+
+  /** Loads in progress (or done) */
+  loading: Map<string, Promise<void>>;
+
+  /** Scope of the state containing this one. Undefined for the root state */
+  parent: AsyncLoadScope | undefined;
+
+  /** Scopes of nested state interfaces, created when first needed */
+  children: Map<string, AsyncLoadScope>;
+}
+
+/**
+ * Gets a string identifying a key path
+ * @param path Key path
+ */
+function getPathId(path: string[]): string {
+  return JSON.stringify(path);
+}
+
+/**
+ * Gets (or creates) the scope of a nested state interface
+ * @param container Scope containing the nested state interface
+ * @param key Key of the nested state interface
+ * @returns The scope, or undefined if the key doesn't hold a nested state interface
+ */
+function getAsyncChildScope(
+  container: AsyncLoadScope,
+  key: string
+): AsyncLoadScope | undefined {
+  const nested = container.backupInterface[key];
+  if (!isNestedInterface(nested)) {
+    return undefined;
+  }
+
+  let child = container.children.get(key);
+  if (!child) {
+    child = {
+      path: [...container.path, key],
+      state: (container.state[key] ?? {}) as StateOrSlice,
+      backupInterface: nested as AsyncStateBackupInterface<StateOrSlice>,
+      stored: (container.stored[key] ?? {}) as Record<string, unknown>,
+      loaded: {},
+      loading: new Map(),
+      parent: container,
+      children: new Map(),
+    };
+    container.children.set(key, child);
   }
+  return child;
+}
+
+/**
+ * Loads a (migrated) backup into the state, allowing slice loaders to return promises
+ * @param scope Scope of the state interface
+ * @param context Slices waiting on each other
+ */
+async function loadStateAsync(
+  scope: AsyncLoadScope,
+  context: AsyncLoadContext
+): Promise<StateOrSlice> {
+  // Load every key in the storage interface concurrently. The state interface waits on all of them
+  await Promise.all(
+    Object.keys(scope.backupInterface).map(key =>
+      waitForKey(scope.path, scope, key, context)
+    )
+  );
 
   // Combine with existing state
-  return { ...state, ...loaded };
+  return { ...scope.state, ...scope.loaded };
+}
+
+/**
+ * Finds a chain of waiting slices from one key path to another, if there is one
+ * @param from Key path id of the waiting slice
+ * @param to Key path id of the slice being waited on
+ * @param context Slices waiting on each other
+ */
+function findWait(
+  from: string,
+  to: string,
+  context: AsyncLoadContext
+): string[] | undefined {
+  if (from === to) {
+    return [to];
+  }
+  for (const next of context.waiting.get(from) ?? []) {
+    const chain = findWait(next, to, context);
+    if (chain) {
+      return [from, ...chain];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Waits for a key to load on behalf of a slice (or nested state interface)
+ * @param waiter Key path of the waiting slice
+ * @param scope Scope of the key
+ * @param key Key to wait for
+ * @param context Slices waiting on each other
+ */
+async function waitForKey(
+  waiter: string[],
+  scope: AsyncLoadScope,
+  key: string,
+  context: AsyncLoadContext
+) {
+  // Make sure we're not in a circular dependency (across nested state interfaces too)
+  const waiterId = getPathId(waiter);
+  const circle = findWait(getPathId([...scope.path, key]), waiterId, context);
+  if (circle) {
+    const paths = [waiterId, ...circle].map(id => JSON.parse(id) as string[]);
+    throw new BackupDependencyError(
+      `Circular dependency in loadBackupAsync: ${paths.map(path =>
+        path.join('.')
+      )}.`,
+      paths
+    );
+  }
+
+  const keys = context.waiting.get(waiterId) ?? new Set();
+  context.waiting.set(waiterId, keys.add(getPathId([...scope.path, key])));
+  try {
+    let promise = scope.loading.get(key);
+    if (!promise) {
+      promise = runLoadAsync(scope, key, context);
+      scope.loading.set(key, promise);
+    }
+    await promise;
+  } finally {
+    keys.delete(getPathId([...scope.path, key]));
+  }
+}
+
+/**
+ * Makes sure a slice declared a dependency it waits for, in strict mode
+ * @param waiter Key path of the waiting slice
+ * @param dependency Key path of the dependency
+ * @param context Shared state of the load
+ */
+function checkWait(
+  waiter: string[],
+  dependency: string[],
+  context: AsyncLoadContext
+) {
+  if (context.strictDependencies) {
+    checkDeclaredDependency(
+      context.root,
+      waiter,
+      dependency,
+      context.strictDependencies
+    );
+  }
+}
+
+/**
+ * Creates the dependency loader given to a slice
+ * @param waiter Key path of the slice
+ * @param scope Scope the dependency loader gets keys from
+ * @param context Shared state of the load
+ */
+function createAsyncDependencyLoader(
+  waiter: string[],
+  scope: AsyncLoadScope,
+  context: AsyncLoadContext
+): AsyncDependencyLoader<StateOrSlice> {
+  return {
+    needs: (async (keyOrPath: string | string[]) => {
+      // Key paths can point anywhere in the backup
+      const target = Array.isArray(keyOrPath)
+        ? findScope(scope, keyOrPath.slice(0, -1), getAsyncChildScope)
+        : scope;
+      const key = Array.isArray(keyOrPath)
+        ? keyOrPath[keyOrPath.length - 1]
+        : keyOrPath;
+      checkWait(waiter, [...target.path, key], context);
+
+      await waitForKey(waiter, target, key, context);
+      return target.loaded[key];
+    }) as AsyncDependencyLoader<StateOrSlice>['needs'],
+
+    async update(innerKey, update) {
+      // Make sure that slice is loaded
+      checkWait(waiter, [...scope.path, innerKey], context);
+      await waitForKey(waiter, scope, innerKey, context);
+      applyUpdate(scope.loaded, innerKey, update);
+    },
+
+    parent:
+      scope.parent &&
+      createAsyncDependencyLoader(waiter, scope.parent, context),
+  };
+}
+
+/**
+ * Loads a key of a state interface
+ * @param scope Scope of the state interface
+ * @param key Key to load
+ * @param context Slices waiting on each other
+ */
+async function runLoadAsync(
+  scope: AsyncLoadScope,
+  key: string,
+  context: AsyncLoadContext
+) {
+  // Get the loader
+  const loader = scope.backupInterface[key];
+  if (!loader) {
+    return;
+  }
+
+  // If there is a load function, this is a slice loader
+  const path = [...scope.path, key];
+  if (!isNestedInterface(loader)) {
+    const sliceLoader = loader as AsyncSliceBackupInterface<unknown, unknown>;
+    validateStored(sliceLoader, scope.stored[key], path);
+    scope.loaded[key] = await sliceLoader.load(
+      scope.stored[key],
+      createAsyncDependencyLoader(path, scope, context)
+    );
+  } else {
+    // Otherwise, this is a state interface embedded in a state interface. Load it in its own scope
+    scope.loaded[key] = await loadStateAsync(
+      getAsyncChildScope(scope, key) as AsyncLoadScope,
+      context
+    );
+  }
 }
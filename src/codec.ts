@@ -0,0 +1,177 @@
+/**
+ * Converts backups to and from data that survives JSON.stringify and JSON.parse
+ */
+export interface BackupCodec {
+  /** Converts a value into JSON compatible data */
+  encode(value: unknown): unknown;
+
+  /** Converts data created by encode back into a value */
+  decode(data: unknown): unknown;
+}
+
+/**
+ * Plain JSON codec. Values are stored as they are, so anything JSON can't represent is lost. This is the default
+ */
+export const jsonCodec: BackupCodec = {
+  encode: value => value,
+  decode: data => data,
+};
+
+/** Key marking a tagged value in rich JSON */
+const typeTag = '$type';
+
+// Typed arrays that can be stored in rich JSON
+const typedArrayNames = [
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'BigInt64Array',
+  'BigUint64Array',
+];
+
+/**
+ * Encodes a value into tagged rich JSON data
+ * @param value Value to encode
+ */
+function encodeRich(value: unknown): unknown {
+  // Primitives JSON can't represent
+  if (value === undefined) {
+    return { [typeTag]: 'undefined' };
+  } else if (typeof value === 'bigint') {
+    return { [typeTag]: 'BigInt', value: value.toString() };
+  } else if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { [typeTag]: 'Number', value: String(value) };
+  } else if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  // Built in objects
+  if (value instanceof Date) {
+    return { [typeTag]: 'Date', value: encodeRich(value.getTime()) };
+  } else if (value instanceof Map) {
+    return {
+      [typeTag]: 'Map',
+      value: Array.from(value, ([key, item]) => [
+        encodeRich(key),
+        encodeRich(item),
+      ]),
+    };
+  } else if (value instanceof Set) {
+    return { [typeTag]: 'Set', value: Array.from(value, encodeRich) };
+  } else if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    return {
+      [typeTag]: value.constructor.name,
+      value: Array.from((value as unknown) as ArrayLike<unknown>, encodeRich),
+    };
+  } else if (Array.isArray(value)) {
+    return value.map(encodeRich);
+  }
+
+  // Plain objects. Objects that look tagged are wrapped so they aren't mistaken for tags
+  const object = value as Record<string, unknown>;
+  const encoded: Record<string, unknown> = {};
+  for (const key of Object.keys(object)) {
+    encoded[key] = encodeRich(object[key]);
+  }
+  return typeTag in object ? { [typeTag]: 'Object', value: encoded } : encoded;
+}
+
+/**
+ * Decodes tagged rich JSON data
+ * @param data Data to decode
+ */
+function decodeRich(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map(decodeRich);
+  } else if (typeof data !== 'object' || data === null) {
+    return data;
+  }
+
+  const object = data as Record<string, unknown>;
+  const type = object[typeTag];
+  const value = object.value;
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'undefined':
+        return undefined;
+      case 'BigInt':
+        return BigInt(value);
+      case 'Number':
+        return Number(value);
+      case 'Date':
+        return new Date(decodeRich(value) as number);
+      case 'Map': {
+        const map = new Map();
+        for (const [key, item] of decodeRich(value) as unknown[][]) {
+          map.set(key, item);
+        }
+        return map;
+      }
+      case 'Set':
+        return new Set(decodeRich(value) as unknown[]);
+      case 'Object':
+        return decodeObject(value as Record<string, unknown>);
+    }
+
+    if (typedArrayNames.includes(type)) {
+      const TypedArray = ((globalThis as unknown) as Record<
+        string,
+        new (items: unknown[]) => unknown
+      >)[type];
+      return new TypedArray(decodeRich(value) as unknown[]);
+    }
+  }
+
+  return decodeObject(object);
+}
+
+/**
+ * Decodes every field of a plain object
+ * @param object Object to decode
+ */
+function decodeObject(object: Record<string, unknown>) {
+  const decoded: Record<string, unknown> = {};
+  for (const key of Object.keys(object)) {
+    decoded[key] = decodeRich(object[key]);
+  }
+  return decoded;
+}
+
+/**
+ * Tagged JSON codec that round trips Date, Map, Set, BigInt, typed arrays, undefined, NaN, and Infinity.
+ * Tagged values are stored as objects with a $type field
+ */
+export const richJsonCodec: BackupCodec = {
+  encode: encodeRich,
+  decode: decodeRich,
+};
+
+/**
+ * Encodes a value into a string
+ * @param value Value to encode
+ * @param codec Codec to use. Defaults to @see jsonCodec
+ */
+export function encodeToString(
+  value: unknown,
+  codec: BackupCodec = jsonCodec
+): string {
+  return JSON.stringify(codec.encode(value));
+}
+
+/**
+ * Decodes a string created by @see encodeToString
+ * @param text Text to decode
+ * @param codec Codec the text was encoded with. Defaults to @see jsonCodec
+ */
+export function decodeFromString(
+  text: string,
+  codec: BackupCodec = jsonCodec
+): unknown {
+  return codec.decode(JSON.parse(text));
+}
@@ -0,0 +1,194 @@
+import { SliceBackupInterface } from './backup';
+
+/**
+ * Creates a slice backup interface that only stores some fields of an object slice.
+ * Fields that aren't stored are loaded from the defaults
+ * @param defaults Slice to take the fields that aren't stored from (usually the initial state), or a function creating it when loading
+ * @param keys Fields to store
+ */
+export function pick<S extends object, K extends keyof S>(
+  defaults: S | (() => S),
+  ...keys: K[]
+): SliceBackupInterface<S, Pick<S, K>> {
+  return {
+    save: state => {
+      const stored = {} as Pick<S, K>;
+      for (const key of keys) {
+        stored[key] = state[key];
+      }
+      return stored;
+    },
+    load: stored => stored && { ...resolve(defaults), ...stored },
+  };
+}
+
+/**
+ * Creates a slice backup interface that stores every field of an object slice except some.
+ * Fields that aren't stored are loaded from the defaults
+ * @param defaults Slice to take the fields that aren't stored from (usually the initial state), or a function creating it when loading
+ * @param keys Fields not to store
+ */
+export function omit<S extends object, K extends keyof S>(
+  defaults: S | (() => S),
+  ...keys: K[]
+): SliceBackupInterface<S, Omit<S, K>> {
+  return {
+    save: state => {
+      const stored = { ...state };
+      for (const key of keys) {
+        delete stored[key];
+      }
+      return stored;
+    },
+    load: stored => stored && ({ ...resolve(defaults), ...stored } as S),
+  };
+}
+
+/**
+ * Creates a slice backup interface that fills in fields missing from the loaded slice (like fields added since the backup was made).
+ * Nothing stored loads the defaults. Fields are filled in shallowly
+ * @param defaults Slice to fill missing fields from (usually the initial state)
+ * @param inner Backup interface for the slice. Defaults to copying it
+ */
+export function withDefaults<S extends object, Stored = Partial<S>>(
+  defaults: S,
+  inner: SliceBackupInterface<S, Stored> = copy()
+): SliceBackupInterface<S, Stored> {
+  return {
+    save: inner.save,
+    load: (stored, dependencyLoader) =>
+      stored === undefined
+        ? defaults
+        : { ...defaults, ...inner.load(stored, dependencyLoader) },
+  };
+}
+
+/**
+ * Creates a slice backup interface for an object used as a record, storing every value with another backup interface.
+ * Values that save or load as undefined are left out
+ * @param item Backup interface for every value
+ */
+export function mapRecord<S, Stored>(
+  item: SliceBackupInterface<S, Stored>
+): SliceBackupInterface<Record<string, S>, Record<string, Stored>> {
+  return {
+    save: state => mapValues(state, value => item.save(value)),
+    load: (stored, dependencyLoader) =>
+      stored && mapValues(stored, value => item.load(value, dependencyLoader)),
+  };
+}
+
+/**
+ * Creates a slice backup interface for an array, storing every item with another backup interface.
+ * Items that save or load as undefined are left out
+ * @param item Backup interface for every item
+ */
+export function arrayOf<S, Stored>(
+  item: SliceBackupInterface<S, Stored>
+): SliceBackupInterface<S[], Stored[]> {
+  return {
+    save: state => definedItems(state.map(value => item.save(value))),
+    load: (stored, dependencyLoader) =>
+      stored &&
+      definedItems(stored.map(value => item.load(value, dependencyLoader))),
+  };
+}
+
+/**
+ * Creates a slice backup interface for a slice that can be null or undefined. Only other values are stored with the inner backup interface
+ * @param inner Backup interface for the slice when it has a value
+ */
+export function optional<S, Stored>(
+  inner: SliceBackupInterface<S, Stored>
+): SliceBackupInterface<S | null | undefined, Stored | null> {
+  return {
+    save: state =>
+      state === null
+        ? null
+        : state === undefined
+        ? undefined
+        : inner.save(state),
+    load: (stored, dependencyLoader) =>
+      stored === null ? null : inner.load(stored, dependencyLoader),
+  };
+}
+
+/**
+ * Creates a slice backup interface from a pair of functions. Load is only called when something was stored
+ * @param save Converts the slice to what gets stored
+ * @param load Converts what was stored back to the slice
+ */
+export function transform<S, Stored>(
+  save: (state: S) => Stored,
+  load: (stored: Stored) => S
+): SliceBackupInterface<S, Stored> {
+  return {
+    save,
+    load: stored => (stored === undefined ? undefined : load(stored)),
+  };
+}
+
+/**
+ * Chains two slice backup interfaces: the slice is saved with the first, and what it saved is stored with the second.
+ * Loading runs the other way around
+ * @param first Backup interface for the slice
+ * @param second Backup interface for what the first one saves
+ */
+export function compose<S, Intermediate, Stored>(
+  first: SliceBackupInterface<S, Intermediate>,
+  second: SliceBackupInterface<Intermediate, Stored>
+): SliceBackupInterface<S, Stored> {
+  return {
+    save: state => {
+      const intermediate = first.save(state);
+      return intermediate === undefined ? undefined : second.save(intermediate);
+    },
+    load: (stored, dependencyLoader) =>
+      first.load(second.load(stored, dependencyLoader), dependencyLoader),
+  };
+}
+
+/**
+ * Creates a slice backup interface that stores the slice as it is. A typed @see CopySliceBackupInterface
+ */
+function copy<S, Stored>(): SliceBackupInterface<S, Stored> {
+  return {
+    save: state => (state as unknown) as Stored,
+    load: stored => (stored as unknown) as S,
+  };
+}
+
+/**
+ * Gets the defaults of a combinator, calling them if they're created lazily
+ * @param defaults Defaults or a function creating them
+ */
+function resolve<S extends object>(defaults: S | (() => S)): S {
+  return typeof defaults === 'function' ? (defaults as () => S)() : defaults;
+}
+
+/**
+ * Maps the values of a record, leaving out undefined results
+ * @param record Record to map
+ * @param map Maps every value
+ */
+function mapValues<T, U>(
+  record: Record<string, T>,
+  map: (value: T) => U | undefined
+): Record<string, U> {
+  const mapped: Record<string, U> = {};
+  for (const key of Object.keys(record)) {
+    const value = map(record[key]);
+    if (value !== undefined) {
+      mapped[key] = value;
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Leaves undefined items out of an array
+ * @param items Items to filter
+ */
+function definedItems<T>(items: (T | undefined)[]): T[] {
+  return items.filter((item): item is T => item !== undefined);
+}
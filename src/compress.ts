@@ -0,0 +1,281 @@
+import { BackupCompressionError } from './errors';
+
+/**
+ * How backups are compressed. 'utf16' creates a string that is safe to keep in DOM storage.
+ * 'binary' creates bytes (Uint8Array), for async storage adapters that store bytes.
+ */
+export type BackupCompression = 'utf16' | 'binary';
+
+// Compressed data starts with a header so it can be told apart from uncompressed JSON (which never starts with a control character)
+const utf16Header = '\u001bLZU';
+const binaryHeader = [0x1b, 0x4c, 0x5a, 0x42];
+
+// Bits stored in every character of UTF-16 output. 15 bits plus the offset stays clear of surrogates
+const utf16Bits = 15;
+const utf16Offset = 32;
+
+// Codes with a special meaning in the compressed stream
+const charCode8 = 0;
+const charCode16 = 1;
+const endCode = 2;
+
+/**
+ * Writes values into units of a fixed number of bits
+ * @param unitBits Bits per output unit
+ */
+function createBitWriter(unitBits: number) {
+  const units: number[] = [];
+  let unit = 0;
+  let position = 0;
+
+  return {
+    /** Writes the lowest bits of a value, least significant bit first */
+    write(value: number, bits: number) {
+      for (let i = 0; i < bits; i++) {
+        unit = (unit << 1) | (value & 1);
+        value >>= 1;
+        if (++position === unitBits) {
+          units.push(unit);
+          unit = 0;
+          position = 0;
+        }
+      }
+    },
+
+    /** Pads the last unit and returns all units */
+    finish() {
+      if (position > 0) {
+        units.push(unit << (unitBits - position));
+      }
+      return units;
+    },
+  };
+}
+
+/**
+ * Reads values written by @see createBitWriter
+ * @param units Units to read
+ * @param unitBits Bits per unit
+ */
+function createBitReader(units: ArrayLike<number>, unitBits: number) {
+  let index = 0;
+  let position = 0;
+
+  return (bits: number) => {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      if (index >= units.length) {
+        throw new BackupCompressionError('Compressed data ended unexpectedly.');
+      }
+      const bit = (units[index] >> (unitBits - 1 - position)) & 1;
+      value |= bit << i;
+      if (++position === unitBits) {
+        index++;
+        position = 0;
+      }
+    }
+    return value;
+  };
+}
+
+/**
+ * Compresses a string with a variant of LZW (the algorithm used by lz-string)
+ * @param text Text to compress
+ * @param unitBits Bits per output unit
+ */
+function compressUnits(text: string, unitBits: number): number[] {
+  const writer = createBitWriter(unitBits);
+  const dictionary = new Map<string, number>();
+  const unwritten = new Set<string>();
+  let dictionarySize = 3;
+  let codeBits = 2;
+  let enlargeIn = 2;
+
+  // Code widths grow as the dictionary does
+  const grow = () => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** codeBits;
+      codeBits++;
+    }
+  };
+
+  const emit = (phrase: string) => {
+    if (unwritten.has(phrase)) {
+      // First time a character is used, write it out in full
+      const code = phrase.charCodeAt(0);
+      writer.write(code < 256 ? charCode8 : charCode16, codeBits);
+      writer.write(code, code < 256 ? 8 : 16);
+      grow();
+      unwritten.delete(phrase);
+    } else {
+      writer.write(dictionary.get(phrase) as number, codeBits);
+    }
+    grow();
+  };
+
+  let phrase = '';
+  for (const char of text.split('')) {
+    if (!dictionary.has(char)) {
+      dictionary.set(char, dictionarySize++);
+      unwritten.add(char);
+    }
+
+    const extended = phrase + char;
+    if (dictionary.has(extended)) {
+      phrase = extended;
+    } else {
+      emit(phrase);
+      dictionary.set(extended, dictionarySize++);
+      phrase = char;
+    }
+  }
+  if (phrase !== '') {
+    emit(phrase);
+  }
+
+  writer.write(endCode, codeBits);
+  return writer.finish();
+}
+
+/**
+ * Decompresses units created by @see compressUnits
+ * @param units Compressed units
+ * @param unitBits Bits per unit
+ */
+function decompressUnits(units: ArrayLike<number>, unitBits: number): string {
+  const read = createBitReader(units, unitBits);
+  const dictionary: string[] = ['', '', ''];
+  let codeBits = 3;
+  let enlargeIn = 4;
+
+  const grow = () => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** codeBits;
+      codeBits++;
+    }
+  };
+
+  // The first code is always a character (or the end)
+  const first = read(2);
+  if (first === endCode) {
+    return '';
+  }
+  let phrase = String.fromCharCode(read(first === charCode8 ? 8 : 16));
+  dictionary.push(phrase);
+  const result = [phrase];
+
+  for (;;) {
+    let code = read(codeBits);
+    if (code === endCode) {
+      return result.join('');
+    } else if (code === charCode8 || code === charCode16) {
+      dictionary.push(String.fromCharCode(read(code === charCode8 ? 8 : 16)));
+      code = dictionary.length - 1;
+      grow();
+    }
+
+    // A code can refer to the entry that is about to be created
+    let entry: string;
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length) {
+      entry = phrase + phrase.charAt(0);
+    } else {
+      throw new BackupCompressionError(
+        `Compressed data refers to unknown code ${code}.`
+      );
+    }
+
+    result.push(entry);
+    dictionary.push(phrase + entry.charAt(0));
+    grow();
+    phrase = entry;
+  }
+}
+
+/**
+ * Compresses text into a string that is safe to store anywhere that takes UTF-16 strings (like localStorage)
+ * @param text Text to compress
+ */
+export function compressToUTF16(text: string): string {
+  const units = compressUnits(text, utf16Bits);
+  return (
+    utf16Header +
+    units.map(unit => String.fromCharCode(unit + utf16Offset)).join('')
+  );
+}
+
+/**
+ * Decompresses a string created by @see compressToUTF16
+ * @param compressed Compressed string
+ */
+export function decompressFromUTF16(compressed: string): string {
+  if (!compressed.startsWith(utf16Header)) {
+    throw new BackupCompressionError('Missing compression header.');
+  }
+
+  const units = [];
+  for (let i = utf16Header.length; i < compressed.length; i++) {
+    units.push(compressed.charCodeAt(i) - utf16Offset);
+  }
+  return decompressUnits(units, utf16Bits);
+}
+
+/**
+ * Compresses text into bytes
+ * @param text Text to compress
+ */
+export function compressToBytes(text: string): Uint8Array {
+  return Uint8Array.from([...binaryHeader, ...compressUnits(text, 8)]);
+}
+
+/**
+ * Decompresses bytes created by @see compressToBytes
+ * @param compressed Compressed bytes
+ */
+export function decompressFromBytes(compressed: Uint8Array): string {
+  if (!isCompressed(compressed)) {
+    throw new BackupCompressionError('Missing compression header.');
+  }
+  return decompressUnits(compressed.subarray(binaryHeader.length), 8);
+}
+
+/**
+ * Checks if stored data starts with a compression header
+ * @param data Stored string or bytes
+ */
+export function isCompressed(data: string | Uint8Array): boolean {
+  return typeof data === 'string'
+    ? data.startsWith(utf16Header)
+    : binaryHeader.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Compresses serialized backup text, if compression is enabled
+ * @param text Serialized backup
+ * @param compression Compression to use. Undefined stores the text as it is
+ */
+export function compressBackup(
+  text: string,
+  compression: BackupCompression | undefined
+): string | Uint8Array {
+  switch (compression) {
+    case 'utf16':
+      return compressToUTF16(text);
+    case 'binary':
+      return compressToBytes(text);
+    default:
+      return text;
+  }
+}
+
+/**
+ * Gets serialized backup text from stored data, detecting whether it was compressed
+ * @param data Stored string or bytes. @see compressBackup
+ */
+export function decompressBackup(data: string | Uint8Array): string {
+  if (typeof data === 'string') {
+    return isCompressed(data) ? decompressFromUTF16(data) : data;
+  }
+  return decompressFromBytes(data);
+}
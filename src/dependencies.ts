@@ -0,0 +1,304 @@
+import { BackupDependencyError } from './errors';
+
+/**
+ * Any state interface, sync or async. Entries are slice backup interfaces or nested state interfaces
+ */
+type AnyStateInterface = { [key: string]: unknown };
+
+/**
+ * Dependency graph of a backup interface. @see getDependencyGraph
+ */
+export interface BackupDependencyGraph {
+  /** Key paths of every slice, in backup interface order */
+  slices: string[][];
+
+  /** Declared dependencies between slices. Dependencies on nested state interfaces are expanded to every slice in them */
+  dependencies: { from: string[]; to: string[] }[];
+}
+
+/**
+ * Receives the warnings of @see BackupDependencyCheck instead of the console
+ * @param error Error describing the undeclared dependency
+ */
+export type BackupDependencyWarningHandler = (
+  error: BackupDependencyError
+) => void;
+
+/**
+ * What to do when a slice needs a slice it didn't declare in dependsOn while loading:
+ * log a warning to the console, throw, or pass the warning to a function (to report it elsewhere)
+ */
+export type BackupDependencyCheck =
+  | 'warn'
+  | 'throw'
+  | BackupDependencyWarningHandler;
+
+/**
+ * Checks if a key in a backup interface holds a nested state interface (rather than a slice backup interface)
+ * @param loader Entry of the backup interface
+ */
+export function isNestedInterface(loader: unknown): boolean {
+  return (
+    typeof loader === 'object' &&
+    loader !== null &&
+    !(
+      'load' in loader &&
+      typeof (loader as { load: unknown }).load === 'function'
+    )
+  );
+}
+
+/**
+ * Gets the entry of a backup interface at a key path
+ * @param backupInterface Root state interface
+ * @param path Key path
+ * @returns The slice backup interface or nested state interface, or undefined if there isn't one
+ */
+function getEntry(backupInterface: AnyStateInterface, path: string[]): unknown {
+  let entry: unknown = backupInterface;
+  for (const key of path) {
+    if (!isNestedInterface(entry)) {
+      return undefined;
+    }
+    entry = (entry as AnyStateInterface)[key];
+  }
+  return entry ?? undefined;
+}
+
+/**
+ * Lists the key paths of every slice in a state interface, in backup interface order
+ * @param backupInterface State interface
+ * @param path Key path of the state interface
+ */
+function listSlices(
+  backupInterface: AnyStateInterface,
+  path: string[] = []
+): string[][] {
+  const slices: string[][] = [];
+  for (const key in backupInterface) {
+    const entry = backupInterface[key];
+    if (!entry) {
+      continue;
+    } else if (isNestedInterface(entry)) {
+      slices.push(...listSlices(entry as AnyStateInterface, [...path, key]));
+    } else {
+      slices.push([...path, key]);
+    }
+  }
+  return slices;
+}
+
+/**
+ * Gets the dependencies a slice declares, as key paths from the root state
+ * @param backupInterface Root state interface
+ * @param slice Key path of the slice
+ */
+function getDeclaredDependencies(
+  backupInterface: AnyStateInterface,
+  slice: string[]
+): string[][] {
+  const entry = getEntry(backupInterface, slice) as
+    | { dependsOn?: (string | string[])[] }
+    | undefined;
+
+  // Keys are in the same state as the slice, paths start at the root
+  return (entry?.dependsOn ?? []).map(dependency =>
+    typeof dependency === 'string'
+      ? [...slice.slice(0, -1), dependency]
+      : dependency
+  );
+}
+
+/**
+ * Checks if one key path is the start of (or the same as) another
+ * @param prefix Shorter key path
+ * @param path Longer key path
+ */
+function isPrefix(prefix: string[], path: string[]) {
+  return (
+    prefix.length <= path.length && prefix.every((key, i) => key === path[i])
+  );
+}
+
+/**
+ * Gets the graph of the dependencies slices declare with dependsOn.
+ * Throws a @see BackupDependencyError if a slice depends on a slice that isn't in the backup interface
+ * @param backupInterface Backup interface
+ */
+export function getDependencyGraph(
+  backupInterface: AnyStateInterface
+): BackupDependencyGraph {
+  const slices = listSlices(backupInterface);
+  const dependencies: BackupDependencyGraph['dependencies'] = [];
+
+  for (const from of slices) {
+    for (const dependency of getDeclaredDependencies(backupInterface, from)) {
+      if (getEntry(backupInterface, dependency) === undefined) {
+        throw new BackupDependencyError(
+          `Slice ${from.join('.')} depends on ${dependency.join(
+            '.'
+          )}, which is not in the backup interface.`,
+          [from, dependency]
+        );
+      }
+
+      // Depending on a nested state interface means depending on all of its slices
+      for (const to of slices) {
+        if (isPrefix(dependency, to)) {
+          dependencies.push({ from, to });
+        }
+      }
+    }
+  }
+
+  return { slices, dependencies };
+}
+
+/**
+ * Finds a cycle in a dependency graph, if there is one
+ * @param graph Dependency graph
+ * @returns Key paths of the slices in the cycle, starting and ending with the same slice
+ */
+function findCycle({
+  slices,
+  dependencies,
+}: BackupDependencyGraph): string[][] | undefined {
+  const visited = new Set<number>();
+  const stack: number[] = [];
+
+  const visit = (index: number): number[] | undefined => {
+    const start = stack.indexOf(index);
+    if (start !== -1) {
+      return [...stack.slice(start), index];
+    } else if (visited.has(index)) {
+      return undefined;
+    }
+    visited.add(index);
+
+    stack.push(index);
+    for (const { from, to } of dependencies) {
+      if (from === slices[index]) {
+        const cycle = visit(slices.indexOf(to));
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+    stack.pop();
+    return undefined;
+  };
+
+  for (let i = 0; i < slices.length; i++) {
+    const cycle = visit(i);
+    if (cycle) {
+      return cycle.map(index => slices[index]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks the dependencies slices declare with dependsOn can be loaded, across nested state interfaces.
+ * Throws a @see BackupDependencyError if a slice depends on a missing slice, or slices depend on each other in a cycle
+ * @param backupInterface Backup interface
+ * @returns The dependency graph. @see getDependencyGraph
+ */
+export function validateDependencies(
+  backupInterface: AnyStateInterface
+): BackupDependencyGraph {
+  const graph = getDependencyGraph(backupInterface);
+  const cycle = findCycle(graph);
+  if (cycle) {
+    throw new BackupDependencyError(
+      `Circular dependency in backup interface: ${cycle.map(path =>
+        path.join('.')
+      )}.`,
+      cycle
+    );
+  }
+  return graph;
+}
+
+/**
+ * Plans the order slices load in, so every slice loads after the slices it declares in dependsOn.
+ * The plan is deterministic: slices load in backup interface order unless they have to wait for a dependency.
+ * Throws a @see BackupDependencyError if the dependencies are invalid. @see validateDependencies
+ * @param backupInterface Backup interface
+ * @returns Key paths of every slice, in load order
+ */
+export function createLoadPlan(backupInterface: AnyStateInterface): string[][] {
+  const { slices, dependencies } = validateDependencies(backupInterface);
+  const plan: string[][] = [];
+  const planned = new Set<string[]>();
+
+  // Repeatedly plan the first slice whose dependencies are planned. There are no cycles, so there always is one
+  while (plan.length < slices.length) {
+    const next = slices.find(
+      slice =>
+        !planned.has(slice) &&
+        dependencies.every(({ from, to }) => from !== slice || planned.has(to))
+    ) as string[];
+    plan.push(next);
+    planned.add(next);
+  }
+  return plan;
+}
+
+/**
+ * Exports the dependency graph of a backup interface for documentation
+ * @param backupInterface Backup interface
+ * @param format 'dot' for Graphviz DOT (edges point from a slice to the slices it depends on), or 'json' for @see BackupDependencyGraph as JSON
+ */
+export function exportDependencyGraph(
+  backupInterface: AnyStateInterface,
+  format: 'dot' | 'json' = 'dot'
+): string {
+  const graph = getDependencyGraph(backupInterface);
+  if (format === 'json') {
+    return JSON.stringify(graph, undefined, 2);
+  }
+
+  const name = (path: string[]) => JSON.stringify(path.join('.'));
+  return [
+    'digraph backup {',
+    ...graph.slices.map(slice => `  ${name(slice)};`),
+    ...graph.dependencies.map(
+      ({ from, to }) => `  ${name(from)} -> ${name(to)};`
+    ),
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Makes sure a slice declared a dependency it needs while loading
+ * @param backupInterface Root state interface
+ * @param slice Key path of the slice that needs a dependency
+ * @param dependency Key path of the dependency
+ * @param check Whether to warn, throw, or report a @see BackupDependencyError if the dependency wasn't declared
+ */
+export function checkDeclaredDependency(
+  backupInterface: AnyStateInterface,
+  slice: string[],
+  dependency: string[],
+  check: BackupDependencyCheck
+): void {
+  if (
+    getDeclaredDependencies(backupInterface, slice).some(declared =>
+      isPrefix(declared, dependency)
+    )
+  ) {
+    return;
+  }
+
+  const message = `Slice ${slice.join('.')} needs ${dependency.join(
+    '.'
+  )}, which it does not declare in dependsOn.`;
+  const error = new BackupDependencyError(message, [slice, dependency]);
+  if (check === 'throw') {
+    throw error;
+  } else if (check === 'warn') {
+    console.warn(message);
+  } else {
+    check(error);
+  }
+}
@@ -1,5 +1,6 @@
-import { Delta, diff, patch, reverse } from 'jsondiffpatch';
-import cloneDeep from 'lodash/cloneDeep';
+import { Delta, diff, reverse } from 'jsondiffpatch';
+import { BackupCodec, jsonCodec } from './codec';
+import { applyDelta } from './patch';
 
 /** Re-export of jsondiffpatch Delta */
 export type StateDelta<_State> = Delta;
@@ -8,45 +9,61 @@ export type StateDelta<_State> = Delta;
  * Creates a history record
  * @param next New moment
  * @param prev Previous moment
+ * @param codec Codec moments are diffed in, so types JSON can't represent are diffed correctly. @see BackupCodec
  */
 export function createHistory<State>(
   next: State,
-  prev: State
+  prev: State,
+  codec: BackupCodec = jsonCodec
 ): StateDelta<State> {
-  return diff(next, prev) as StateDelta<State>;
+  return diff(codec.encode(next), codec.encode(prev)) as StateDelta<State>;
 }
 
 /**
  * Restores a previous state from a delta record
  * @param current Current state
  * @param record Record to restore
+ * @param codec Codec the record was created with. @see createHistory. Unchanged parts of the state are only shared with the default codec
  */
 export function restore<State>(
   current: State,
-  record: StateDelta<State>
+  record: StateDelta<State>,
+  codec: BackupCodec = jsonCodec
 ): State {
-  const clone = cloneDeep(current);
-  return patch(clone, record);
+  // Only the paths touched by the record are copied, so unchanged parts of the moment are shared.
+  // Other codecs than jsonCodec decode the whole moment, so nothing is shared with them
+  return codec.decode(applyDelta(codec.encode(current), record)) as State;
 }
 
 /**
  * Restores a state using a delta record but also returns a new delta to go back in reverse
  * @param current Current state
  * @param record Record to restore
+ * @param codec Codec the record was created with. @see createHistory
  */
 export function restoreWithRewind<State>(
   current: State,
-  record: StateDelta<State>
+  record: StateDelta<State>,
+  codec: BackupCodec = jsonCodec
 ): { restored: State; diff: StateDelta<State> } {
-  const clone = cloneDeep(current);
-  const next = patch(clone, record);
+  const next = restore(current, record, codec);
 
   // Create a diff to return to that previous state
-  const returnDiff = reverse(record) as StateDelta<State>;
+  const returnDiff = reverseHistory(record);
 
   return { restored: next, diff: returnDiff };
 }
 
+/**
+ * Reverses a delta record, so it restores the state it was created from
+ * @param record Record to reverse
+ */
+export function reverseHistory<State>(
+  record: StateDelta<State>
+): StateDelta<State> {
+  return reverse(record) as StateDelta<State>;
+}
+
 export interface HistoryIteration<State> {
   [Symbol.iterator](): Iterator<State>;
 }
@@ -55,10 +72,12 @@ export interface HistoryIteration<State> {
  * Generator that returns restored history states
  * @param current Current state
  * @param history History
+ * @param codec Codec the history was created with. @see createHistory
  */
 export function* historyGenerator<State>(
   current: State | undefined,
-  history: StateDelta<State>[]
+  history: StateDelta<State>[],
+  codec: BackupCodec = jsonCodec
 ) {
   // No state. Done.
   if (current === undefined) {
@@ -69,7 +88,7 @@ export function* historyGenerator<State>(
   let state = current;
   for (const delta of history) {
     // Restore from the delta and yield the result
-    state = restore(state, delta);
+    state = restore(state, delta, codec);
     yield state;
   }
 }
@@ -78,12 +97,14 @@ export function* historyGenerator<State>(
  * Creates a history iterator
  * @param current Current state
  * @param history History list
+ * @param codec Codec the history was created with. @see createHistory
  */
 export function historyIterator<State>(
   current: State | undefined,
-  history: StateDelta<State>[]
+  history: StateDelta<State>[],
+  codec: BackupCodec = jsonCodec
 ): HistoryIteration<State> {
   return {
-    [Symbol.iterator]: () => historyGenerator<State>(current, history),
+    [Symbol.iterator]: () => historyGenerator<State>(current, history, codec),
   };
 }
@@ -0,0 +1,53 @@
+import { EntityAdapter, EntityState } from '@reduxjs/toolkit';
+import { SliceBackupInterface } from './backup';
+import { arrayOf } from './combinators';
+import { CopySliceBackupInterface } from './def';
+
+/**
+ * Options for @see createEntityBackupInterface
+ */
+export interface EntityBackupOptions<T, Stored, S extends EntityState<T>> {
+  /** Backup interface for every entity. Entities that save or load as undefined are left out. Defaults to copying them */
+  entity?: SliceBackupInterface<T, Stored>;
+
+  /** Only entities this returns true for are stored (for example, to skip transient entities) */
+  filter?: (entity: T) => boolean;
+
+  /** State the loaded entities are added to, for slices with fields besides ids and entities. Defaults to the adapter's initial state */
+  initialState?: S;
+}
+
+/**
+ * Creates a slice backup interface for a slice managed by a Redux Toolkit entity adapter.
+ * Entities are stored as an array in ids order, rather than as ids and entities.
+ * Loading rebuilds the ids with the adapter, in its sort order if it has one
+ * @param adapter Entity adapter of the slice
+ * @param options Entity backup interface, filter, and initial state
+ */
+export function createEntityBackupInterface<
+  T,
+  Stored = T,
+  S extends EntityState<T> = EntityState<T>
+>(
+  adapter: EntityAdapter<T>,
+  {
+    entity = CopySliceBackupInterface,
+    filter = () => true,
+    initialState = adapter.getInitialState() as S,
+  }: EntityBackupOptions<T, Stored, S> = {}
+): SliceBackupInterface<S, Stored[]> {
+  const entities = arrayOf(entity);
+
+  return {
+    save: state =>
+      entities.save(
+        state.ids.map(id => state.entities[id] as T).filter(filter)
+      ),
+    load: (stored, dependencyLoader) => {
+      const loaded = entities.load(stored, dependencyLoader);
+      return (
+        loaded && (adapter.setAll(initialState as EntityState<T>, loaded) as S)
+      );
+    },
+  };
+}
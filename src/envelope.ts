@@ -0,0 +1,310 @@
+import { compressToBytes, decompressFromBytes } from './compress';
+import {
+  BackupDecryptionError,
+  BackupError,
+  BackupSignatureError,
+} from './errors';
+import { isVersionedBackup } from './version';
+
+/**
+ * Options for sealing backups in a signed and/or encrypted envelope. Keys are created by the caller with WebCrypto,
+ * for example with `crypto.subtle.importKey` or `crypto.subtle.generateKey`.
+ */
+export interface BackupEnvelopeOptions {
+  /** HMAC key used to sign backups. Backups without a valid signature fail to load with a @see BackupSignatureError */
+  signingKey?: CryptoKey;
+
+  /** AES-GCM key used to encrypt backups. Backups that can't be decrypted fail to load with a @see BackupDecryptionError */
+  encryptionKey?: CryptoKey;
+
+  /** Only encrypt these slices (top level keys of the state, also in versioned backups) instead of the whole backup, so the rest stays readable. Sealing throws if one isn't defined by the backup interface */
+  sensitive?: string[];
+
+  /** WebCrypto implementation. Defaults to the global crypto object (use `require('crypto').webcrypto` in Node) */
+  crypto?: Crypto;
+}
+
+/**
+ * Stored form of a sealed backup or slice
+ */
+interface SealedData {
+  /** Marks sealed data */
+  $sealed: 1;
+
+  /** Base64 initialization vector. Only set if the data is encrypted */
+  iv?: string;
+
+  /** Backup JSON, or base64 cipher text if the data is encrypted */
+  data: string;
+
+  /** Base64 HMAC signature of the IV and data */
+  signature?: string;
+}
+
+// Length of AES-GCM initialization vectors in bytes
+const ivLength = 12;
+
+/**
+ * Checks if stored data is sealed in an envelope
+ * @param data Parsed stored data
+ */
+export function isSealedBackup(data: unknown): boolean {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as Partial<SealedData>).$sealed === 1
+  );
+}
+
+/**
+ * Gets the WebCrypto implementation to use
+ * @param options Envelope options
+ */
+function getCrypto(options: BackupEnvelopeOptions): Crypto {
+  const crypto = options.crypto ?? globalThis.crypto;
+  if (!crypto?.subtle) {
+    throw new BackupError(
+      'WebCrypto is not available. Pass an implementation in the envelope options.'
+    );
+  }
+  return crypto;
+}
+
+/**
+ * Encodes bytes as base64
+ * @param bytes Bytes to encode
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 into bytes
+ * @param text Base64 text
+ */
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Gets the bytes signed for sealed data
+ * @param sealed Sealed data
+ */
+function signedBytes({ iv, data }: SealedData): Uint8Array {
+  const text = `${iv ?? ''}.${data}`;
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i * 2] = code & 0xff;
+    bytes[i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+/**
+ * Gets the slices of encoded backup data. For versioned backups, these are inside the version wrapper
+ * @param data Encoded backup data
+ */
+function getSlices(data: unknown): Record<string, unknown> {
+  return (isVersionedBackup(data) ? data.data : data) as Record<
+    string,
+    unknown
+  >;
+}
+
+/**
+ * Replaces the slices of encoded backup data, keeping the version wrapper if there is one
+ * @param data Encoded backup data
+ * @param slices New slices
+ */
+function setSlices(data: unknown, slices: Record<string, unknown>): unknown {
+  return isVersionedBackup(data) ? { ...data, data: slices } : slices;
+}
+
+/**
+ * Encrypts a value. The JSON is compressed first, since cipher text can't be compressed
+ * @param crypto WebCrypto implementation
+ * @param key AES-GCM key
+ * @param value JSON compatible value to encrypt
+ */
+async function encrypt(
+  crypto: Crypto,
+  key: CryptoKey,
+  value: unknown
+): Promise<SealedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(ivLength));
+  const cipherText = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    compressToBytes(JSON.stringify(value))
+  );
+  return {
+    $sealed: 1,
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(cipherText)),
+  };
+}
+
+/**
+ * Decrypts a value encrypted by @see encrypt
+ * @param crypto WebCrypto implementation
+ * @param key AES-GCM key
+ * @param sealed Sealed data
+ * @param path Key path of the data (empty for the whole backup)
+ */
+async function decrypt(
+  crypto: Crypto,
+  key: CryptoKey | undefined,
+  sealed: SealedData,
+  path: string[]
+): Promise<unknown> {
+  if (!key) {
+    throw new BackupDecryptionError(path, 'no encryption key was given.');
+  } else if (sealed.iv === undefined) {
+    throw new BackupDecryptionError(path, 'it is not encrypted.');
+  }
+
+  let plainText: ArrayBuffer;
+  try {
+    plainText = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+      key,
+      fromBase64(sealed.data)
+    );
+  } catch (error) {
+    throw new BackupDecryptionError(
+      path,
+      'the key is wrong or the data was modified.'
+    );
+  }
+  return JSON.parse(decompressFromBytes(new Uint8Array(plainText)));
+}
+
+/**
+ * Seals encoded backup data in an envelope. Returns the data as it is if no keys are given
+ * @param data Encoded backup data (JSON compatible). @see BackupCodec
+ * @param options Envelope options
+ * @param sliceKeys Top level keys the backup interface defines. Sealing throws if a sensitive slice isn't one of them. Defaults to the keys in the data
+ * @returns JSON compatible sealed data
+ */
+export async function sealBackup(
+  data: unknown,
+  options: BackupEnvelopeOptions,
+  sliceKeys?: string[]
+): Promise<unknown> {
+  const { signingKey, encryptionKey, sensitive } = options;
+  if (!signingKey && !encryptionKey) {
+    return data;
+  }
+  const crypto = getCrypto(options);
+
+  // Step 1: Encrypt sensitive slices on their own
+  if (encryptionKey && sensitive) {
+    const slices = { ...getSlices(data) };
+    for (const key of sensitive) {
+      // Never store a sensitive slice in plain text because of a typo
+      if (!(sliceKeys ?? Object.keys(slices)).includes(key)) {
+        throw new BackupError(
+          `Sensitive slice ${key} is not in the backup, so it can't be encrypted.`
+        );
+      }
+
+      // Undefined slices aren't stored at all, so there's nothing to encrypt
+      if (slices[key] !== undefined) {
+        slices[key] = await encrypt(crypto, encryptionKey, slices[key]);
+      }
+    }
+    data = setSlices(data, slices);
+  }
+
+  // Step 2: Encrypt the whole backup, unless only sensitive slices are encrypted
+  let sealed: SealedData =
+    encryptionKey && !sensitive
+      ? await encrypt(crypto, encryptionKey, data)
+      : { $sealed: 1, data: JSON.stringify(data) };
+
+  // Step 3: Sign
+  if (signingKey) {
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      signingKey,
+      signedBytes(sealed)
+    );
+    sealed = { ...sealed, signature: toBase64(new Uint8Array(signature)) };
+  }
+
+  return sealed;
+}
+
+/**
+ * Opens data sealed by @see sealBackup, verifying its signature and decrypting it.
+ * Throws @see BackupSignatureError or @see BackupDecryptionError if the data can't be trusted.
+ * @param data Parsed stored data
+ * @param options Envelope options the data was sealed with
+ * @returns Encoded backup data
+ */
+export async function openBackup(
+  data: unknown,
+  options: BackupEnvelopeOptions
+): Promise<unknown> {
+  const { signingKey, encryptionKey, sensitive } = options;
+
+  // Step 1: Open the envelope
+  if (isSealedBackup(data)) {
+    const crypto = getCrypto(options);
+    const sealed = data as SealedData;
+
+    // Verify the signature before trusting anything else
+    if (signingKey) {
+      if (sealed.signature === undefined) {
+        throw new BackupSignatureError('missing');
+      }
+      const valid = await crypto.subtle.verify(
+        'HMAC',
+        signingKey,
+        fromBase64(sealed.signature),
+        signedBytes(sealed)
+      );
+      if (!valid) {
+        throw new BackupSignatureError('mismatch');
+      }
+    }
+
+    data =
+      sealed.iv !== undefined || (encryptionKey && !sensitive)
+        ? await decrypt(crypto, encryptionKey, sealed, [])
+        : JSON.parse(sealed.data);
+  } else if (signingKey) {
+    throw new BackupSignatureError('missing');
+  } else if (encryptionKey && !sensitive) {
+    throw new BackupDecryptionError([], 'it is not encrypted.');
+  }
+
+  // Step 2: Decrypt sealed slices
+  if (typeof data !== 'object' || data === null) {
+    return data;
+  }
+  const slices = { ...getSlices(data) };
+  for (const key of Object.keys(slices)) {
+    if (isSealedBackup(slices[key])) {
+      slices[key] = await decrypt(
+        getCrypto(options),
+        encryptionKey,
+        slices[key] as SealedData,
+        [key]
+      );
+    } else if (encryptionKey && sensitive?.includes(key)) {
+      throw new BackupDecryptionError([key], 'it is not encrypted.');
+    }
+  }
+  return setSlices(data, slices);
+}
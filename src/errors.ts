@@ -0,0 +1,192 @@
+/**
+ * Base class for all errors thrown by this package
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    // Restore the prototype chain (lost when targetting ES5) so instanceof works
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Thrown when a backup was created with a newer schema version than the code loading it supports
+ */
+export class BackupVersionError extends BackupError {
+  /** Key path of the versioned data. Empty for the global backup version */
+  readonly path: string[];
+
+  /** Version the backup was stored with */
+  readonly storedVersion: number;
+
+  /** Newest version the current code knows how to load */
+  readonly currentVersion: number;
+
+  constructor(path: string[], storedVersion: number, currentVersion: number) {
+    super(
+      `Backup ${
+        path.length > 0 ? `slice ${path.join('.')}` : 'data'
+      } has version ${storedVersion} but only versions up to ${currentVersion} are supported.`
+    );
+    this.name = 'BackupVersionError';
+    this.path = path;
+    this.storedVersion = storedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
+/**
+ * A slice's load function threw while loading a backup. @see loadBackupWithReport
+ */
+export class SliceLoadError extends BackupError {
+  /** Key path of the slice */
+  readonly path: string[];
+
+  /** Error thrown by the slice's load function */
+  readonly cause: unknown;
+
+  /** Stored value the slice failed to load */
+  readonly stored: unknown;
+
+  constructor(path: string[], cause: unknown, stored: unknown) {
+    super(`Slice ${path.join('.')} failed to load: ${cause}`);
+    this.name = 'SliceLoadError';
+    this.path = path;
+    this.cause = cause;
+    this.stored = stored;
+  }
+}
+
+/**
+ * Stored data failed a slice's validator. @see SliceBackupInterface.validate
+ */
+export class BackupValidationError extends BackupError {
+  /** Key path of the slice */
+  readonly path: string[];
+
+  /** Stored value that failed validation */
+  readonly stored: unknown;
+
+  constructor(path: string[], stored: unknown) {
+    super(`Stored data for slice ${path.join('.')} is not valid.`);
+    this.name = 'BackupValidationError';
+    this.path = path;
+    this.stored = stored;
+  }
+}
+
+/**
+ * Slices depend on each other in a way that can't be loaded: in a cycle, or on slices that don't exist
+ */
+export class BackupDependencyError extends BackupError {
+  /** Key paths of the slices involved. For cycles, this starts and ends with the same slice */
+  readonly paths: string[][];
+
+  constructor(message: string, paths: string[][]) {
+    super(message);
+    this.name = 'BackupDependencyError';
+    this.paths = paths;
+  }
+}
+
+/**
+ * Thrown when compressed backup data can't be decompressed. @see decompressBackup
+ */
+export class BackupCompressionError extends BackupError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupCompressionError';
+  }
+}
+
+/**
+ * Thrown when a sealed backup's signature is missing or doesn't match its contents. @see BackupEnvelopeOptions.signingKey
+ */
+export class BackupSignatureError extends BackupError {
+  /** Whether the signature was missing or didn't match */
+  readonly reason: 'missing' | 'mismatch';
+
+  constructor(reason: 'missing' | 'mismatch') {
+    super(
+      reason === 'missing'
+        ? 'Backup is not signed.'
+        : 'Backup signature does not match. It may have been tampered with.'
+    );
+    this.name = 'BackupSignatureError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when a sealed backup or slice can't be decrypted. @see BackupEnvelopeOptions.encryptionKey
+ */
+export class BackupDecryptionError extends BackupError {
+  /** Key path of the encrypted slice. Empty for the whole backup */
+  readonly path: string[];
+
+  constructor(path: string[], message: string) {
+    super(
+      `Could not decrypt ${
+        path.length > 0 ? `slice ${path.join('.')}` : 'backup'
+      }: ${message}`
+    );
+    this.name = 'BackupDecryptionError';
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when getting a history moment that doesn't exist. Undo, redo, and jump actions targeting one are ignored with a warning instead
+ */
+export class UndoRangeError extends BackupError {
+  /** Requested distance from the present moment. Positive values are in the history, negative values in the future */
+  readonly distance: number;
+
+  /** Number of moments in the history */
+  readonly historyLength: number;
+
+  /** Number of moments in the future */
+  readonly futureLength: number;
+
+  constructor(distance: number, historyLength: number, futureLength: number) {
+    super(
+      `Could not find moment ${distance}. There are only ${historyLength} moments in history and ${futureLength} moments in future.`
+    );
+    this.name = 'UndoRangeError';
+    this.distance = distance;
+    this.historyLength = historyLength;
+    this.futureLength = futureLength;
+  }
+}
+
+/**
+ * Thrown when iterating an undo branch that doesn't exist. Switching to one is ignored with a warning instead
+ */
+export class UndoBranchError extends BackupError {
+  /** Requested branch index */
+  readonly index: number;
+
+  /** Number of branches at the present moment */
+  readonly branchCount: number;
+
+  constructor(index: number, branchCount: number) {
+    super(
+      `Could not find branch ${index}. There are only ${branchCount} branches at the present moment.`
+    );
+    this.name = 'UndoBranchError';
+    this.index = index;
+    this.branchCount = branchCount;
+  }
+}
+
+/**
+ * Thrown when a stored undo history can't be restored onto the loaded state
+ */
+export class UndoHistoryError extends BackupError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UndoHistoryError';
+  }
+}
@@ -0,0 +1,219 @@
+import { createBackup, StateBackupInterface, StateOrSlice } from './backup';
+import { BackupCodec, decodeFromString, encodeToString } from './codec';
+import { compressBackup, decompressBackup } from './compress';
+import { createHistory, restore } from './diff';
+import { UndoHistoryError } from './errors';
+import { StringStorageOptions } from './storage';
+import {
+  createUndoMeta,
+  UndoableState,
+  UndoMoment,
+  UndoMomentDiff,
+  UndoMomentInfo,
+} from './undo';
+
+/**
+ * Serializable copy of the undo data in an undoable state. @see createUndoHistoryBackup
+ */
+export interface UndoHistoryBackup<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+> {
+  /** Present moment */
+  present: UndoMoment<S, BackupInterface> | undefined;
+
+  /** History moments, most recent first */
+  history: UndoMomentDiff<S, BackupInterface>[];
+
+  /** Future moments, next first */
+  future: UndoMomentDiff<S, BackupInterface>[];
+
+  /** Information about the history moments. Missing in backups made before moments had information */
+  historyInfo?: (UndoMomentInfo | undefined)[];
+
+  /** Information about the future moments. Missing in backups made before moments had information */
+  futureInfo?: (UndoMomentInfo | undefined)[];
+}
+
+/**
+ * Options for @see createUndoHistoryBackup
+ */
+export interface UndoHistoryBackupOptions {
+  /** Maximum number of history moments to keep (the most recent ones). Undefined means all */
+  historyLimit?: number;
+
+  /** Maximum number of future moments to keep (the next ones). Undefined means all */
+  futureLimit?: number;
+}
+
+/**
+ * Creates a serializable backup of the undo data (present moment, history, and future) in an undoable state.
+ * Undo branches and open transactions are not included.
+ * @param state Undoable state
+ * @param options Limits on how much history to keep
+ */
+export function createUndoHistoryBackup<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  options: UndoHistoryBackupOptions = {}
+): UndoHistoryBackup<S, BackupInterface> {
+  return {
+    present: state.present,
+    history: state.history.slice(0, options.historyLimit),
+    future: state.future.slice(0, options.futureLimit),
+    historyInfo: state.undoMeta.historyInfo.slice(0, options.historyLimit),
+    futureInfo: state.undoMeta.futureInfo.slice(0, options.futureLimit),
+  };
+}
+
+/**
+ * Creates an undoable state with no history from a regular state
+ * @param state State
+ * @param undoInterface Backup interface used by the undoable reducer
+ */
+export function createUndoableState<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(state: S, undoInterface: BackupInterface): UndoableState<S, BackupInterface> {
+  return {
+    ...state,
+    present: createBackup(state, undoInterface),
+    history: [],
+    future: [],
+    undoMeta: createUndoMeta(),
+  };
+}
+
+/**
+ * Restores a stored undo history onto a loaded state, creating an undoable state to use as initial state.
+ * Throws @see UndoHistoryError if the stored present moment doesn't match the state or any stored diff doesn't apply.
+ * @param state Loaded state (without undo data)
+ * @param undoInterface Backup interface used by the undoable reducer
+ * @param backup Stored undo history. @see createUndoHistoryBackup
+ * @param codec Codec the undoable reducer uses. @see UndoableReducerOptions.codec
+ */
+export function restoreUndoHistory<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: S,
+  undoInterface: BackupInterface,
+  backup: UndoHistoryBackup<S, BackupInterface>,
+  codec?: BackupCodec
+): UndoableState<S, BackupInterface> {
+  const undoableState = createUndoableState(state, undoInterface);
+
+  // The history is only meaningful if it leads to the state we loaded
+  if (
+    backup.present === undefined ||
+    createHistory(undoableState.present, backup.present, codec) !== undefined
+  ) {
+    throw new UndoHistoryError(
+      'Stored present moment does not match the loaded state.'
+    );
+  }
+
+  // Make sure every diff applies by walking the history and future
+  for (const list of [backup.history, backup.future]) {
+    let moment = backup.present;
+    for (let i = 0; i < list.length; i++) {
+      try {
+        moment = restore(moment, list[i], codec);
+      } catch (error) {
+        throw new UndoHistoryError(
+          `Stored ${
+            list === backup.history ? 'history' : 'future'
+          } moment ${i} does not apply: ${error}`
+        );
+      }
+    }
+  }
+
+  // Moment information is optional, but has to line up with the moments
+  const info = (
+    list: UndoMomentDiff<S, BackupInterface>[],
+    stored: (UndoMomentInfo | undefined)[] | undefined
+  ) =>
+    list.map((_, i) =>
+      stored?.length === list.length ? stored[i] : undefined
+    );
+
+  return {
+    ...undoableState,
+    history: backup.history,
+    future: backup.future,
+    undoMeta: {
+      ...undoableState.undoMeta,
+      historyInfo: info(backup.history, backup.historyInfo),
+      futureInfo: info(backup.future, backup.futureInfo),
+    },
+  };
+}
+
+/**
+ * Saves the undo history of an undoable state to storage
+ * @param storage Storage to save to (localStorage or sessionStorage)
+ * @param key Key to save it into
+ * @param state Undoable state
+ * @param options Limits on how much history to save, and how to encode it
+ */
+export function saveUndoHistoryToStorage<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  storage: Storage,
+  key: string,
+  state: UndoableState<S, BackupInterface>,
+  options: UndoHistoryBackupOptions & StringStorageOptions = {}
+): void {
+  // String options never create binary data
+  const json = encodeToString(
+    createUndoHistoryBackup(state, options),
+    options.codec
+  );
+  storage.setItem(key, compressBackup(json, options.compression) as string);
+}
+
+/**
+ * Loads an undo history saved via @see saveUndoHistoryToStorage onto a loaded state.
+ * If there is no stored history or it can't be restored, the state starts with an empty history.
+ * @param state Loaded state (without undo data)
+ * @param storage Storage to load from (localStorage or sessionStorage)
+ * @param key Storage key
+ * @param undoInterface Backup interface used by the undoable reducer
+ * @param options Storage options the history was saved with. @see StringStorageOptions
+ */
+export function loadUndoHistoryFromStorage<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: S,
+  storage: Storage,
+  key: string,
+  undoInterface: BackupInterface,
+  options: StringStorageOptions = {}
+): UndoableState<S, BackupInterface> {
+  try {
+    const storedJSON = storage.getItem(key);
+    if (storedJSON) {
+      return restoreUndoHistory(
+        state,
+        undoInterface,
+        decodeFromString(
+          decompressBackup(storedJSON),
+          options.codec
+        ) as UndoHistoryBackup<S, BackupInterface>,
+        options.codec
+      );
+    }
+  } catch (error) {
+    console.error(
+      `Error loading undo history from storage key ${key}: ${error}`
+    );
+  }
+
+  // Start with a fresh history
+  return createUndoableState(state, undoInterface);
+}
@@ -1,27 +1,234 @@
-import { undo, redo, apply } from './undo';
+import {
+  undo,
+  redo,
+  apply,
+  undoTo,
+  redoTo,
+  jumpToMoment,
+  clearHistory,
+  switchBranch,
+  beginTransaction,
+  commitTransaction,
+  cancelTransaction,
+} from './undo';
 
 export {
   createBackup,
   loadBackup,
+  loadBackupAsync,
+  loadBackupWithReport,
+  BackupLoadErrorPolicy,
+  BackupLoadOptions,
+  BackupLoadReport,
   BackupSaveFunction,
   BackupLoadFunction,
+  AsyncBackupLoadFunction,
   SliceBackupInterface,
   StateBackupInterface,
+  AsyncSliceBackupInterface,
+  AsyncStateBackupInterface,
+  StateSaveInterface,
+  DependencyLoader,
+  AsyncDependencyLoader,
 } from './backup';
+export {
+  getDependencyGraph,
+  validateDependencies,
+  createLoadPlan,
+  exportDependencyGraph,
+  BackupDependencyGraph,
+  BackupDependencyCheck,
+  BackupDependencyWarningHandler,
+} from './dependencies';
 export {
   createBackupSlice,
+  combineBackupSlices,
   CreateBackupSliceOptions,
   SliceAddon,
+  SliceBackupOption,
+  SliceBackupOptionInterface,
+  BackupSliceKeys,
+  CombinedBackupSlices,
 } from './slice';
 export { CopySliceBackupInterface } from './def';
+export {
+  pick,
+  omit,
+  withDefaults,
+  mapRecord,
+  arrayOf,
+  optional,
+  transform,
+  compose,
+} from './combinators';
+export { createEntityBackupInterface, EntityBackupOptions } from './entities';
+export {
+  isString,
+  isNumber,
+  isBoolean,
+  isNull,
+  isLiteral,
+  isOptional,
+  isOneOf,
+  isArrayOf,
+  isRecordOf,
+  isObjectOf,
+  validated,
+  Validator,
+  ValidatedType,
+  ObjectOf,
+} from './validate';
 export {
   createUndoableReducer,
   createUndoableAction,
   iterateUndoHistory,
+  iterateUndoBranch,
+  getMomentAt,
+  getUndoBranches,
+  getUndoInfo,
+  getRedoInfo,
+  getUndoLabel,
+  getRedoLabel,
+  UndoBranch,
+  UndoBranchPoint,
+  UndoBranchInfo,
+  UndoCheckpoint,
+  UndoCheckpointOptions,
+  UndoableReducerOptions,
+  UndoCoalesceOptions,
+  UndoableState,
+  UndoMeta,
+  UndoMoment,
+  UndoMomentDiff,
+  UndoMomentInfo,
 } from './undo';
-export const UndoActions = { undo, redo, apply };
-export { loadFromStorage, saveToStorage } from './storage';
+export {
+  pruneDropOldest,
+  pruneMergeOldest,
+  pruneKeepEveryNth,
+  pruneMoments,
+  estimateDeltaSize,
+  estimateMomentSize,
+  UndoLimits,
+  UndoPruningStrategy,
+} from './prune';
+export {
+  createUndoHistoryBackup,
+  createUndoableState,
+  restoreUndoHistory,
+  saveUndoHistoryToStorage,
+  loadUndoHistoryFromStorage,
+  UndoHistoryBackup,
+  UndoHistoryBackupOptions,
+} from './history';
+export const UndoActions = {
+  undo,
+  redo,
+  apply,
+  undoTo,
+  redoTo,
+  jumpToMoment,
+  clearHistory,
+  switchBranch,
+  beginTransaction,
+  commitTransaction,
+  cancelTransaction,
+};
+export {
+  loadFromStorage,
+  saveToStorage,
+  loadFromStorageAsync,
+  saveToStorageAsync,
+  StorageOptions,
+  StringStorageOptions,
+  AsyncStorageOptions,
+  AdapterCompression,
+} from './storage';
+export {
+  sealBackup,
+  openBackup,
+  isSealedBackup,
+  BackupEnvelopeOptions,
+} from './envelope';
+export {
+  jsonCodec,
+  richJsonCodec,
+  encodeToString,
+  decodeFromString,
+  BackupCodec,
+} from './codec';
+export {
+  compressToUTF16,
+  decompressFromUTF16,
+  compressToBytes,
+  decompressFromBytes,
+  compressBackup,
+  decompressBackup,
+  isCompressed,
+  BackupCompression,
+} from './compress';
+export {
+  createStorageAdapter,
+  createMemoryAdapter,
+  createFileSystemAdapter,
+  AsyncStorageAdapter,
+  StoredData,
+  FileSystemPromises,
+} from './adapters';
+export {
+  createSaveSlotManager,
+  SaveSlotManager,
+  SaveSlotManagerOptions,
+  SaveSlotMetadata,
+  SaveSlotInfo,
+  SaveSlotNotFoundError,
+  SaveSlotCorruptError,
+} from './slots';
+export {
+  createMigrationChain,
+  migrateBackup,
+  isVersionedBackup,
+  BackupMigration,
+  BackupMigrations,
+  BackupVersionOptions,
+  MigrationChain,
+  VersionedBackup,
+} from './version';
+export {
+  BackupError,
+  BackupVersionError,
+  SliceLoadError,
+  BackupValidationError,
+  BackupDependencyError,
+  BackupCompressionError,
+  BackupSignatureError,
+  BackupDecryptionError,
+  UndoRangeError,
+  UndoBranchError,
+  UndoHistoryError,
+} from './errors';
 export {
   loadInitialStateFromSession,
   createSessionMiddleware,
+  loadInitialStateFromSessionAsync,
+  createAsyncSessionMiddleware,
+  SessionSaveOptions,
+  SessionMiddlewareOptions,
+  AsyncSessionMiddlewareOptions,
+  SessionMiddleware,
+  AsyncSessionMiddleware,
 } from './session';
+export {
+  createSyncMiddleware,
+  createSyncReducer,
+  syncHydrate,
+  createBroadcastChannelTransport,
+  createStorageEventTransport,
+  createMemorySyncHub,
+  SyncMessage,
+  SyncTransport,
+  SyncMergeFunction,
+  SyncMergeFunctions,
+  SyncMiddlewareOptions,
+  SyncMiddleware,
+} from './sync';
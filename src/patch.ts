@@ -0,0 +1,123 @@
+import { Delta, patch } from 'jsondiffpatch';
+
+// Magic numbers used by the jsondiffpatch delta format
+const deleted = 0;
+const textDiff = 2;
+const arrayMove = 3;
+
+/**
+ * Applies a jsondiffpatch delta without mutating the value.
+ * Only objects and arrays on the paths the delta touches are copied, so unchanged subtrees keep their identity.
+ * @param value Value to patch
+ * @param delta Delta created by jsondiffpatch's diff
+ * @returns The patched value
+ */
+export function applyDelta(value: unknown, delta: Delta | undefined): unknown {
+  // No changes
+  if (delta === undefined) {
+    return value;
+  }
+
+  // Value replacements: [added], [old, new], [old, 0, 0] or [text diff, 0, 2]
+  if (Array.isArray(delta)) {
+    if (delta.length === 1) {
+      return delta[0];
+    } else if (delta.length === 2) {
+      return delta[1];
+    } else if (delta[2] === deleted) {
+      return undefined;
+    } else if (delta[2] === textDiff) {
+      // Strings are immutable, so jsondiffpatch can patch them directly
+      return patch(value, delta);
+    }
+    throw new Error(`Unknown delta type ${delta[2]}.`);
+  }
+
+  // Nested changes
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Can't apply a nested delta to ${value}.`);
+  }
+  return delta._t === 'a'
+    ? patchArray(value as unknown[], delta)
+    : patchObject(value as Record<string, unknown>, delta);
+}
+
+/**
+ * Applies an object delta to a copy of an object
+ * @param object Object to patch
+ * @param delta Object delta
+ */
+function patchObject(
+  object: Record<string, unknown>,
+  delta: Delta
+): Record<string, unknown> {
+  const result = { ...object };
+  for (const key of Object.keys(delta)) {
+    const keyDelta = delta[key];
+    if (
+      Array.isArray(keyDelta) &&
+      keyDelta.length === 3 &&
+      keyDelta[2] === deleted
+    ) {
+      delete result[key];
+    } else {
+      result[key] = applyDelta(object[key], keyDelta);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies an array delta to a copy of an array, in the same order as jsondiffpatch
+ * @param array Array to patch
+ * @param delta Array delta
+ */
+function patchArray(array: unknown[], delta: Delta): unknown[] {
+  if (!Array.isArray(array)) {
+    throw new Error(`Can't apply an array delta to ${array}.`);
+  }
+
+  const result = array.slice();
+  const toRemove: number[] = [];
+  const toInsert: { index: number; value: unknown }[] = [];
+  const toModify: { index: number; delta: Delta }[] = [];
+
+  // Keys starting with _ are indices in the original array, the rest are indices in the patched array
+  for (const key of Object.keys(delta)) {
+    if (key === '_t') {
+      continue;
+    } else if (key[0] === '_') {
+      const itemDelta = delta[key];
+      if (itemDelta[2] !== deleted && itemDelta[2] !== arrayMove) {
+        throw new Error(`Unknown array delta type ${itemDelta[2]}.`);
+      }
+      toRemove.push(Number(key.slice(1)));
+    } else if (Array.isArray(delta[key]) && delta[key].length === 1) {
+      toInsert.push({ index: Number(key), value: delta[key][0] });
+    } else {
+      toModify.push({ index: Number(key), delta: delta[key] });
+    }
+  }
+
+  // Remove items from the end first, so the indices of the rest stay valid. Moved items are inserted again
+  toRemove.sort((a, b) => a - b);
+  for (let i = toRemove.length - 1; i >= 0; i--) {
+    const itemDelta = delta[`_${toRemove[i]}`];
+    const [removed] = result.splice(toRemove[i], 1);
+    if (itemDelta[2] === arrayMove) {
+      toInsert.push({ index: itemDelta[1], value: removed });
+    }
+  }
+
+  // Insert items from the start, so each lands at its final index
+  toInsert.sort((a, b) => a.index - b.index);
+  for (const { index, value } of toInsert) {
+    result.splice(index, 0, value);
+  }
+
+  // Patch items that changed in place
+  for (const { index, delta: itemDelta } of toModify) {
+    result[index] = applyDelta(result[index], itemDelta);
+  }
+  return result;
+}
@@ -0,0 +1,186 @@
+import { BackupCodec, jsonCodec } from './codec';
+import { createHistory, restore, StateDelta } from './diff';
+
+/**
+ * Limits applied to a list of undo moments (the history or the future)
+ */
+export interface UndoLimits {
+  /** Maximum number of moments (undefined means infinite) */
+  count?: number;
+
+  /** Maximum estimated size of all the moment diffs in bytes (undefined means infinite). @see estimateDeltaSize */
+  bytes?: number;
+}
+
+/**
+ * Decides which moments to keep when a moment list is over its limits.
+ * Receives the estimated size of every moment's diff (most recent first) and returns the indices of the moments to keep.
+ * Dropping a moment between two kept moments merges its diff into the next kept one, so it can no longer be visited on its own.
+ * Strategies are called again until the list is within its limits. If they stop making progress, the oldest moments are dropped.
+ */
+export type UndoPruningStrategy = (
+  sizes: number[],
+  limits: UndoLimits
+) => number[];
+
+// Diffs are never mutated, so their sizes can be cached
+const sizeCache = new WeakMap<object, number>();
+
+/**
+ * Estimates how many bytes a diff takes up when serialized
+ * @param delta Diff to measure
+ */
+export function estimateDeltaSize(delta: StateDelta<unknown>): number {
+  if (typeof delta !== 'object' || delta === null) {
+    return delta === undefined ? 0 : JSON.stringify(delta).length;
+  }
+
+  let size = sizeCache.get(delta);
+  if (size === undefined) {
+    size = JSON.stringify(delta).length;
+    sizeCache.set(delta, size);
+  }
+  return size;
+}
+
+// Moments are never mutated either
+const momentSizeCache = new WeakMap<object, number>();
+
+/**
+ * Estimates how many bytes a full moment (like an undo checkpoint) takes up when serialized
+ * @param moment Moment to measure
+ * @param codec Codec the moment is encoded with. @see BackupCodec
+ */
+export function estimateMomentSize(
+  moment: unknown,
+  codec: BackupCodec = jsonCodec
+): number {
+  if (typeof moment !== 'object' || moment === null) {
+    return estimateDeltaSize(codec.encode(moment) as StateDelta<unknown>);
+  }
+
+  let size = momentSizeCache.get(moment);
+  if (size === undefined) {
+    size = JSON.stringify(codec.encode(moment)).length;
+    momentSizeCache.set(moment, size);
+  }
+  return size;
+}
+
+/**
+ * Checks if moments with the given diff sizes fit in the limits
+ * @param sizes Sizes of the moment diffs
+ * @param limits Limits to check
+ */
+function isWithinLimits(sizes: number[], { count, bytes }: UndoLimits) {
+  return (
+    (count === undefined || sizes.length <= count) &&
+    (bytes === undefined || sizes.reduce((a, b) => a + b, 0) <= bytes)
+  );
+}
+
+/**
+ * Pruning strategy that drops the oldest moments. This is the default
+ */
+export function pruneDropOldest(): UndoPruningStrategy {
+  return (sizes, { count, bytes }) => {
+    const kept = [];
+    let total = 0;
+    for (let i = 0; i < sizes.length; i++) {
+      total += sizes[i];
+      if (
+        (count !== undefined && i >= count) ||
+        (bytes !== undefined && total > bytes)
+      ) {
+        break;
+      }
+      kept.push(i);
+    }
+    return kept;
+  };
+}
+
+/**
+ * Pruning strategy that merges the two oldest moments into one, keeping the oldest state reachable
+ */
+export function pruneMergeOldest(): UndoPruningStrategy {
+  return sizes => sizes.map((_, i) => i).filter(i => i !== sizes.length - 2);
+}
+
+/**
+ * Pruning strategy that thins out old moments, keeping every nth one. The oldest moment is always kept
+ * @param n Keep one of every n old moments
+ * @param recent Number of recent moments that are never thinned out
+ */
+export function pruneKeepEveryNth(n: number, recent = 10): UndoPruningStrategy {
+  return sizes => {
+    const oldest = sizes.length - 1;
+    return sizes
+      .map((_, i) => i)
+      .filter(i => i < recent || (oldest - i) % n === 0);
+  };
+}
+
+/**
+ * Prunes a list of moments to fit in its limits
+ * @param start Moment the first diff in the list applies to (the present moment)
+ * @param moments History or future diffs, most recent first
+ * @param limits Limits to apply
+ * @param strategy Pruning strategy. Defaults to @see pruneDropOldest
+ * @param codec Codec the diffs were created with. @see createHistory
+ * @returns The pruned diffs, and the original index of every moment that was kept
+ */
+export function pruneMoments<Moment>(
+  start: Moment,
+  moments: StateDelta<Moment>[],
+  limits: UndoLimits,
+  strategy: UndoPruningStrategy = pruneDropOldest(),
+  codec?: BackupCodec
+): { moments: StateDelta<Moment>[]; kept: number[] } {
+  const original = moments;
+  let kept = moments.map((_, i) => i);
+
+  // Moments are only restored when diffs need merging
+  const restored: Moment[] = [];
+  const momentAt = (index: number) => {
+    for (let i = restored.length; i <= index; i++) {
+      restored.push(
+        restore(i === 0 ? start : restored[i - 1], original[i], codec)
+      );
+    }
+    return index < 0 ? start : restored[index];
+  };
+
+  // Let the strategy prune while it makes progress
+  while (!isWithinLimits(moments.map(estimateDeltaSize), limits)) {
+    const current = moments;
+    const keptBefore = kept;
+    const keep = strategy(current.map(estimateDeltaSize), limits).filter(
+      (index, i, all) =>
+        index >= 0 && index < current.length && (i === 0 || index > all[i - 1])
+    );
+    if (keep.length >= current.length) {
+      break;
+    }
+
+    // Merge the diffs between kept moments
+    moments = keep.map((index, i) => {
+      const previous = i === 0 ? -1 : keep[i - 1];
+      return previous === index - 1
+        ? current[index]
+        : createHistory(
+            momentAt(previous === -1 ? -1 : keptBefore[previous]),
+            momentAt(keptBefore[index]),
+            codec
+          );
+    });
+    kept = keep.map(index => keptBefore[index]);
+  }
+
+  // Fall back to dropping the oldest moments
+  const length = pruneDropOldest()(moments.map(estimateDeltaSize), limits)
+    .length;
+  return length === moments.length
+    ? { moments, kept }
+    : { moments: moments.slice(0, length), kept: kept.slice(0, length) };
+}
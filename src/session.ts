@@ -1,50 +1,403 @@
-import { Middleware } from 'redux';
+import { AnyAction, Middleware } from 'redux';
+import { AsyncStorageAdapter, StoredData } from './adapters';
 import { StateBackupInterface } from './backup';
-import { saveToStorage, loadFromStorage } from './storage';
+import {
+  saveToStorage,
+  loadFromStorage,
+  saveToStorageAsync,
+  loadFromStorageAsync,
+  AdapterCompression,
+  AsyncStorageOptions,
+  StorageOptions,
+  StringStorageOptions,
+} from './storage';
+
+/**
+ * Options controlling when and how session middleware saves the state
+ */
+export interface SessionSaveOptions extends StorageOptions {
+  /** Wait until no saving actions have been dispatched for this many milliseconds before saving */
+  debounce?: number;
+
+  /** Save at most once every this many milliseconds. Combined with debounce, this is the longest a save can be delayed */
+  throttle?: number;
+
+  /** Only actions passing this predicate cause a save */
+  filter?: (action: AnyAction) => boolean;
+
+  /** Only actions with these types cause a save */
+  allow?: string[];
+
+  /** Actions with these types never cause a save */
+  deny?: string[];
+
+  /** Skip saving if no slice in the backup interface changed (by reference) since the last save */
+  onlyWhenChanged?: boolean;
+
+  /** Save any pending changes when the page is hidden or unloaded. Defaults to true */
+  flushOnHide?: boolean;
+}
+
+/**
+ * Options for @see createSessionMiddleware
+ */
+export interface SessionMiddlewareOptions extends SessionSaveOptions {
+  /** Storage to save to. Defaults to sessionStorage */
+  storage?: Storage;
+
+  /** Compresses saves into UTF-16 safe strings. Defaults to no compression */
+  compression?: 'utf16';
+}
+
+/**
+ * Options for @see createAsyncSessionMiddleware
+ */
+export interface AsyncSessionMiddlewareOptions<
+  Value extends StoredData = StoredData
+> extends SessionSaveOptions, AsyncStorageOptions<Value> {
+  /** Compresses saves. 'binary' only works with adapters that store bytes. Defaults to no compression */
+  compression?: AdapterCompression<Value>;
+}
+
+/**
+ * Middleware created by @see createSessionMiddleware
+ */
+export type SessionMiddleware<S> = Middleware<unknown, S> & {
+  /** Immediately saves any changes waiting on a debounce or throttle */
+  flush(): void;
+
+  /** Stops saving: cancels any scheduled save and removes the page hide listeners. Call flush first to keep waiting changes */
+  close(): void;
+};
+
+/**
+ * Middleware created by @see createAsyncSessionMiddleware
+ */
+export type AsyncSessionMiddleware<S> = Middleware<unknown, S> & {
+  /** Immediately saves any changes waiting on a debounce or throttle. Resolves once all saves have finished */
+  flush(): Promise<void>;
+
+  /** Stops saving: cancels any scheduled save and removes the page hide listeners. Saves already running still finish. Call flush first to keep waiting changes */
+  close(): void;
+};
+
+export interface SaveScheduler {
+  /** Schedules a save in response to an action */
+  request(action: AnyAction): void;
+
+  /** Runs any scheduled save now */
+  flush(): void;
+
+  /** Cancels any scheduled save and stops flushing when the page is hidden */
+  dispose(): void;
+}
+
+/**
+ * Decides when to save based on @see SessionSaveOptions. Shared with the sync middleware
+ * @param getState Gets the current state
+ * @param backupInterface Backup interface (used to check for changes)
+ * @param options Save options
+ * @param save Saves the state
+ */
+export function createSaveScheduler<S extends Record<string, unknown>>(
+  getState: () => S,
+  backupInterface: StateBackupInterface<S>,
+  options: SessionSaveOptions,
+  save: (state: S) => void
+): SaveScheduler {
+  const { debounce, throttle, filter, allow, deny, onlyWhenChanged } = options;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let dirtySince: number | undefined;
+  let lastSaveTime = -Infinity;
+  let lastSavedState: S | undefined;
+
+  const hasChanged = (state: S) => {
+    if (!onlyWhenChanged || lastSavedState === undefined) {
+      return true;
+    }
+
+    // Slices are immutable so a reference check is enough
+    for (const key in backupInterface) {
+      if (state[key] !== lastSavedState[key]) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const flush = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    // Nothing waiting to be saved
+    if (dirtySince === undefined) {
+      return;
+    }
+    dirtySince = undefined;
+
+    const state = getState();
+    if (hasChanged(state)) {
+      lastSaveTime = Date.now();
+      lastSavedState = state;
+      save(state);
+    }
+  };
+
+  const request = (action: AnyAction) => {
+    // Ignore actions that were filtered out
+    if (
+      deny?.includes(action.type) ||
+      (allow && !allow.includes(action.type)) ||
+      (filter && !filter(action))
+    ) {
+      return;
+    }
+
+    const now = Date.now();
+    dirtySince = dirtySince ?? now;
+
+    // Figure out how long to wait before saving
+    let delay = debounce ?? 0;
+    if (throttle !== undefined) {
+      delay =
+        debounce === undefined
+          ? lastSaveTime + throttle - now
+          : Math.min(delay, dirtySince + throttle - now);
+    }
+
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (delay <= 0) {
+      flush();
+    } else {
+      timer = setTimeout(flush, delay);
+    }
+  };
+
+  // Make sure nothing pending is lost when the user leaves
+  const flushWhenHidden = () => {
+    if (document.visibilityState === 'hidden') {
+      flush();
+    }
+  };
+  const listening =
+    options.flushOnHide !== false &&
+    typeof window !== 'undefined' &&
+    typeof document !== 'undefined';
+  if (listening) {
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('pagehide', flush);
+  }
+
+  const dispose = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    dirtySince = undefined;
+    if (listening) {
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('pagehide', flush);
+    }
+  };
+
+  return { request, flush, dispose };
+}
 
 /**
  * Loads the initial state from storage
  * @param initialState Initial state
- * @param config Backup Configuration
  * @param backupInterface Backup interface
  * @param sessionKey Session key to load from
+ * @param storage Storage to load from. Defaults to sessionStorage
+ * @param options Storage options the session was saved with, such as the codec. @see StringStorageOptions
  */
 export function loadInitialStateFromSession<S extends Record<string, unknown>>(
   initialState: Partial<S>,
   backupInterface: StateBackupInterface<S>,
-  sessionKey: string
+  sessionKey: string,
+  storage: Storage = sessionStorage,
+  options?: StringStorageOptions
 ): Partial<S> {
   return loadFromStorage(
     initialState,
-    sessionStorage,
+    storage,
     sessionKey,
-    backupInterface
+    backupInterface,
+    options
   );
 }
 
 /**
  * Creates a middleware to save the game state to the session after every action
- * @param config Backup Configuration
  * @param backupInterface Backup interface
  * @param sessionKey Session key to save to
+ * @param options Options controlling where and when to save. @see SessionMiddlewareOptions
  */
 export function createSessionMiddleware<S extends Record<string, unknown>>(
   backupInterface: StateBackupInterface<S>,
-  sessionKey: string
-): Middleware<unknown, S> {
-  return store => next => action => {
-    // Run dispatch first
-    const result = next(action);
-
-    // Save to session storage
-    saveToStorage(
-      sessionStorage,
-      sessionKey,
-      store.getState(),
-      backupInterface
+  sessionKey: string,
+  options: SessionMiddlewareOptions = {}
+): SessionMiddleware<S> {
+  let scheduler: SaveScheduler | undefined;
+
+  const middleware: Middleware<unknown, S> = store => {
+    const storeScheduler = createSaveScheduler(
+      store.getState,
+      backupInterface,
+      options,
+      state =>
+        // Save to session storage
+        saveToStorage(
+          options.storage ?? sessionStorage,
+          sessionKey,
+          state,
+          backupInterface,
+          options
+        )
     );
+    scheduler?.dispose();
+    scheduler = storeScheduler;
+
+    return next => action => {
+      // Run dispatch first
+      const result = next(action);
+
+      // Schedule a save, unless the middleware was closed
+      if (scheduler === storeScheduler) {
+        storeScheduler.request(action);
+      }
 
-    // Return result
-    return result;
+      // Return result
+      return result;
+    };
   };
+
+  const close = () => {
+    scheduler?.dispose();
+    scheduler = undefined;
+  };
+
+  return Object.assign(middleware, {
+    flush: () => scheduler?.flush(),
+    close,
+  });
+}
+
+/**
+ * Loads the initial state from an async storage adapter
+ * @param initialState Initial state
+ * @param backupInterface Backup interface
+ * @param sessionKey Session key to load from
+ * @param adapter Storage adapter to load from. @see AsyncStorageAdapter
+ * @param options Storage options the session was saved with, such as the codec and envelope. @see AsyncStorageOptions
+ */
+export function loadInitialStateFromSessionAsync<
+  S extends Record<string, unknown>,
+  Value extends StoredData = string
+>(
+  initialState: Partial<S>,
+  backupInterface: StateBackupInterface<S>,
+  sessionKey: string,
+  adapter: AsyncStorageAdapter<Value>,
+  options?: AsyncStorageOptions<Value>
+): Promise<Partial<S>> {
+  return loadFromStorageAsync(
+    initialState,
+    adapter,
+    sessionKey,
+    backupInterface,
+    options
+  );
+}
+
+/**
+ * Creates a middleware to save the game state to an async storage adapter after every action.
+ * Only one save runs at a time. States to save that arrive while a save is running are coalesced into one more save once it finishes.
+ * @param backupInterface Backup interface
+ * @param sessionKey Session key to save to
+ * @param adapter Storage adapter to save to. @see AsyncStorageAdapter
+ * @param options Options controlling when and how to save. @see AsyncSessionMiddlewareOptions
+ */
+export function createAsyncSessionMiddleware<
+  S extends Record<string, unknown>,
+  Value extends StoredData = string
+>(
+  backupInterface: StateBackupInterface<S>,
+  sessionKey: string,
+  adapter: AsyncStorageAdapter<Value>,
+  options: AsyncSessionMiddlewareOptions<Value> = {}
+): AsyncSessionMiddleware<S> {
+  let scheduler: SaveScheduler | undefined;
+  let saving: Promise<void> | undefined;
+  let nextState: S | undefined;
+
+  const runSaves = async () => {
+    while (nextState !== undefined) {
+      const state = nextState;
+      nextState = undefined;
+      try {
+        await saveToStorageAsync(
+          adapter,
+          sessionKey,
+          state,
+          backupInterface,
+          options
+        );
+      } catch (error) {
+        console.error(
+          `Error saving state to session key ${sessionKey}: ${error}`
+        );
+      }
+    }
+    saving = undefined;
+  };
+
+  const middleware: Middleware<unknown, S> = store => {
+    const storeScheduler = createSaveScheduler(
+      store.getState,
+      backupInterface,
+      options,
+      state => {
+        // Queue the state to be saved
+        nextState = state;
+        if (!saving) {
+          saving = runSaves();
+        }
+      }
+    );
+    scheduler?.dispose();
+    scheduler = storeScheduler;
+
+    return next => action => {
+      // Run dispatch first
+      const result = next(action);
+
+      // Schedule a save, unless the middleware was closed
+      if (scheduler === storeScheduler) {
+        storeScheduler.request(action);
+      }
+
+      // Return result
+      return result;
+    };
+  };
+
+  const close = () => {
+    scheduler?.dispose();
+    scheduler = undefined;
+  };
+
+  return Object.assign(middleware, {
+    flush: async () => {
+      scheduler?.flush();
+      await saving;
+    },
+    close,
+  });
 }
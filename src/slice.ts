@@ -1,4 +1,8 @@
 import {
+  Action,
+  ActionReducerMapBuilder,
+  AnyAction,
+  CaseReducer,
   createSlice,
   CreateSliceOptions,
   Slice,
@@ -10,8 +14,10 @@ import {
   BackupLoadFunction,
   SliceBackupInterface,
 } from './backup';
+import { omit, pick } from './combinators';
+import { BackupError } from './errors';
 
-export interface SliceAddon<Slice> {
+export interface SliceAddon<Slice, BackupInterface = undefined> {
   /**
    * Creates a new backup interface for this slice. @see createBackup
    * @param save Save method to conver this slice into a storage object
@@ -21,8 +27,37 @@ export interface SliceAddon<Slice> {
     save: BackupSaveFunction<Slice, Stored>,
     load: BackupLoadFunction<Slice, Stored>
   ): SliceBackupInterface<Slice, Stored>;
+
+  /** Backup interface created from the backup option. @see CreateBackupSliceOptions.backup */
+  backupInterface: BackupInterface;
+
+  /**
+   * Checks if an action is undoable for this slice: it's one of the undoable reducers' actions, or is handled by the undoable extra reducers.
+   * Pass it to @see UndoableReducerOptions.undoable so extra reducers create history moments
+   * @param action Action to check
+   */
+  isUndoableAction(action: Action<string>): boolean;
 }
 
+/**
+ * Backup option of @see createBackupSlice. Either a slice backup interface, or the fields of the slice to store (the others load from the initial state)
+ */
+export type SliceBackupOption<State> =
+  | SliceBackupInterface<State, any> // eslint-disable-line @typescript-eslint/no-explicit-any
+  | { pick: (keyof State)[] }
+  | { omit: (keyof State)[] };
+
+/**
+ * Type of the backup interface created from a backup option. @see SliceBackupOption
+ */
+export type SliceBackupOptionInterface<State, Backup> = Backup extends {
+  pick: (infer K)[];
+}
+  ? SliceBackupInterface<State, Pick<State, K & keyof State>>
+  : Backup extends { omit: (infer K)[] }
+  ? SliceBackupInterface<State, Omit<State, K & keyof State>>
+  : Backup;
+
 /**
  * Extended slice options to add support for automatically creating undoable actions
  */
@@ -30,10 +65,105 @@ export interface CreateBackupSliceOptions<
   State = any,
   CR extends SliceCaseReducers<State> = SliceCaseReducers<State>,
   UndoCR extends SliceCaseReducers<State> = SliceCaseReducers<State>,
-  Name extends string = string
+  Name extends string = string,
+  Backup extends SliceBackupOption<State> | undefined = undefined
 > extends CreateSliceOptions<State, CR, Name> {
   /** Similar to @see reducers but these actions are created using @see createUndoableAction */
   undoableReducers?: ValidateSliceCaseReducers<State, UndoCR>;
+
+  /** Similar to @see extraReducers but the actions handled are undoable. @see SliceAddon.isUndoableAction */
+  undoableExtraReducers?: (builder: ActionReducerMapBuilder<State>) => void;
+
+  /** Creates @see SliceAddon.backupInterface: a slice backup interface, or { pick: keys } or { omit: keys } to only store some fields */
+  backup?: Backup;
+}
+
+/** Cases, matchers, and default case recorded from extra reducer builders */
+interface ExtraReducers<State> {
+  cases: { type: string; reducer: CaseReducer<State> }[];
+  matchers: {
+    matcher: (action: AnyAction) => boolean;
+    reducer: CaseReducer<State>;
+  }[];
+  defaultCase?: CaseReducer<State>;
+}
+
+/**
+ * Records a case of an extra reducer builder. Redux Toolkit only allows one case reducer per action type
+ * @param extraReducers Records to add to
+ * @param type Action type
+ * @param reducer Case reducer
+ */
+function recordCase<State>(
+  extraReducers: ExtraReducers<State>,
+  type: string,
+  reducer: CaseReducer<State>
+) {
+  if (extraReducers.cases.some(recorded => recorded.type === type)) {
+    throw new BackupError(
+      `${type} is handled more than once. Extra reducers and undoable extra reducers can't handle the same action type.`
+    );
+  }
+  extraReducers.cases.push({ type, reducer });
+}
+
+/**
+ * Records what an extra reducer builder callback adds, so builders can be merged (Redux Toolkit requires all cases before any matchers)
+ * @param extraReducers Records to add to
+ * @param undoable Whether the builder is for undoable extra reducers, which can't have a default case
+ */
+function createRecordingBuilder<State>(
+  extraReducers: ExtraReducers<State>,
+  undoable: boolean
+): ActionReducerMapBuilder<State> {
+  const builder = {
+    addCase: (
+      typeOrActionCreator: string | { type: string },
+      reducer: CaseReducer<State>
+    ) => {
+      const type =
+        typeof typeOrActionCreator === 'string'
+          ? typeOrActionCreator
+          : typeOrActionCreator.type;
+      recordCase(extraReducers, type, reducer);
+      return builder;
+    },
+    addMatcher: (
+      matcher: (action: AnyAction) => boolean,
+      reducer: CaseReducer<State>
+    ) => {
+      extraReducers.matchers.push({ matcher, reducer });
+      return builder;
+    },
+    addDefaultCase: (reducer: CaseReducer<State>) => {
+      if (undoable) {
+        throw new BackupError(
+          'Undoable extra reducers can not have a default case.'
+        );
+      }
+      extraReducers.defaultCase = reducer;
+      return {};
+    },
+  };
+  return builder as ActionReducerMapBuilder<State>;
+}
+
+/**
+ * Gets the initial state of a slice. Lazy initial states (functions) are called, like Redux Toolkit 1.6+ does
+ * @param slice Slice created by Redux Toolkit. Uses its getInitialState when there is one
+ * @param initialState Initial state option of the slice
+ */
+function resolveInitialState<State>(
+  slice: object,
+  initialState: State | (() => State)
+): State {
+  const { getInitialState } = slice as { getInitialState?: () => State };
+  if (getInitialState) {
+    return getInitialState();
+  }
+  return typeof initialState === 'function'
+    ? (initialState as () => State)()
+    : initialState;
 }
 
 /**
@@ -44,10 +174,12 @@ export function createBackupSlice<
   State,
   CaseReducers extends SliceCaseReducers<State>,
   UndoCR extends SliceCaseReducers<State> = SliceCaseReducers<State>,
-  Name extends string = string
+  Name extends string = string,
+  Backup extends SliceBackupOption<State> | undefined = undefined
 >(
-  options: CreateBackupSliceOptions<State, CaseReducers, UndoCR, Name>
-): Slice<State, CaseReducers & UndoCR, Name> & SliceAddon<State> {
+  options: CreateBackupSliceOptions<State, CaseReducers, UndoCR, Name, Backup>
+): Slice<State, CaseReducers & UndoCR, Name> &
+  SliceAddon<State, SliceBackupOptionInterface<State, Backup>> {
   if (options.undoableReducers) {
     // Merge into reducers object
     const reducers: any = { ...options.reducers };
@@ -60,6 +192,43 @@ export function createBackupSlice<
     options = { ...options, reducers };
   }
 
+  // Record undoable extra reducers first, so the undoable ones can be told apart
+  const extraReducers: ExtraReducers<State> = { cases: [], matchers: [] };
+  options.undoableExtraReducers?.(createRecordingBuilder(extraReducers, true));
+  const undoableTypes = extraReducers.cases.map(({ type }) => type);
+  const undoableMatchers = extraReducers.matchers.map(({ matcher }) => matcher);
+
+  if (options.undoableExtraReducers) {
+    const { extraReducers: baseExtraReducers } = options;
+    if (typeof baseExtraReducers === 'function') {
+      baseExtraReducers(createRecordingBuilder(extraReducers, false));
+    } else {
+      for (const type in baseExtraReducers) {
+        recordCase(
+          extraReducers,
+          type,
+          baseExtraReducers[type] as CaseReducer<State>
+        );
+      }
+    }
+
+    // Replay everything in the order Redux Toolkit requires
+    options = {
+      ...options,
+      extraReducers: builder => {
+        for (const { type, reducer } of extraReducers.cases) {
+          builder.addCase(type, reducer);
+        }
+        for (const { matcher, reducer } of extraReducers.matchers) {
+          builder.addMatcher(matcher, reducer);
+        }
+        if (extraReducers.defaultCase) {
+          builder.addDefaultCase(extraReducers.defaultCase);
+        }
+      },
+    };
+  }
+
   // Create slice using redux toolkit
   const slice = createSlice(options) as Slice<
     State,
@@ -81,11 +250,66 @@ export function createBackupSlice<
     }
   }
 
+  // Create the backup interface from the backup option. Fields that aren't stored load from the initial state, created when loading
+  const { backup } = options;
+  const getInitialState = () =>
+    resolveInitialState(slice, options.initialState) as State & object;
+  let backupInterface: unknown = backup;
+  if (backup && 'pick' in backup) {
+    backupInterface = pick(getInitialState, ...backup.pick);
+  } else if (backup && 'omit' in backup) {
+    backupInterface = omit(getInitialState, ...backup.omit);
+  }
+
   return {
     ...slice,
     createBackupInterface: <Stored>(
       save: BackupSaveFunction<State, Stored>,
       load: BackupLoadFunction<State, Stored>
     ) => ({ save, load }),
+    backupInterface: backupInterface as SliceBackupOptionInterface<
+      State,
+      Backup
+    >,
+    isUndoableAction: action =>
+      action.type.indexOf(`${slice.name}/undoable/`) === 0 ||
+      undoableTypes.indexOf(action.type) !== -1 ||
+      undoableMatchers.some(matcher => matcher(action)),
   };
 }
+
+/**
+ * Keys of the slices that have a backup interface. @see combineBackupSlices
+ */
+export type BackupSliceKeys<
+  Slices extends Record<string, { backupInterface: unknown }>
+> = {
+  [K in keyof Slices]: Slices[K]['backupInterface'] extends undefined
+    ? never
+    : K;
+}[keyof Slices];
+
+/**
+ * State backup interface combined from backup slices. Slices without a backup interface are left out. @see combineBackupSlices
+ */
+export type CombinedBackupSlices<
+  Slices extends Record<string, { backupInterface: unknown }>
+> = {
+  [K in BackupSliceKeys<Slices>]: Slices[K]['backupInterface'];
+};
+
+/**
+ * Creates a state backup interface from backup slices, like combineReducers. Slices without a backup interface aren't stored
+ * @param slices Slices created with @see createBackupSlice, by state key
+ */
+export function combineBackupSlices<
+  Slices extends Record<string, { backupInterface: unknown }>
+>(slices: Slices): CombinedBackupSlices<Slices> {
+  const backupInterface = {} as Record<string, unknown>;
+  for (const key in slices) {
+    if (slices[key].backupInterface) {
+      backupInterface[key] = slices[key].backupInterface;
+    }
+  }
+  return backupInterface as CombinedBackupSlices<Slices>;
+}
@@ -0,0 +1,284 @@
+import { AsyncStorageAdapter } from './adapters';
+import { StateBackupInterface } from './backup';
+import {
+  BackupDecryptionError,
+  BackupError,
+  BackupSignatureError,
+  BackupVersionError,
+} from './errors';
+import {
+  readFromStorageAsync,
+  saveToStorageAsync,
+  AsyncStorageOptions,
+} from './storage';
+
+/**
+ * Information about a save slot, stored in the slot index so it can be listed without loading the save
+ */
+export interface SaveSlotMetadata<Preview = unknown> {
+  /** Slot id */
+  id: string;
+
+  /** Time the slot was last saved (milliseconds since epoch). 0 if unknown */
+  timestamp: number;
+
+  /** Kind of save, such as 'manual', 'autosave', or 'quicksave' */
+  kind?: string;
+
+  /** Human readable name */
+  label?: string;
+
+  /** Play time at the moment of saving */
+  playTime?: number;
+
+  /** Small preview payload to display in a save menu */
+  preview?: Preview;
+}
+
+/**
+ * Information provided when saving to a slot
+ */
+export type SaveSlotInfo<Preview = unknown> = Omit<
+  SaveSlotMetadata<Preview>,
+  'id' | 'timestamp'
+>;
+
+/**
+ * Options for @see createSaveSlotManager
+ */
+export interface SaveSlotManagerOptions<S, Preview>
+  extends AsyncStorageOptions<string> {
+  /** Prefix for all storage keys used by the manager. Defaults to 'saves' */
+  prefix?: string;
+
+  /** Creates a preview payload from the state when saving */
+  preview?: (state: S) => Preview;
+
+  /** Compresses slots into UTF-16 safe strings, since the adapter stores strings. Defaults to no compression */
+  compression?: 'utf16';
+}
+
+/**
+ * Manages numbered or named save slots in an async storage adapter. @see createSaveSlotManager
+ */
+export interface SaveSlotManager<S, Preview = unknown> {
+  /** Lists all slots, most recently saved first */
+  list(): Promise<SaveSlotMetadata<Preview>[]>;
+
+  /** Gets the metadata of a slot, or undefined if it doesn't exist */
+  get(id: string | number): Promise<SaveSlotMetadata<Preview> | undefined>;
+
+  /** Saves a state into a slot, overwriting it if it exists */
+  save(
+    id: string | number,
+    state: S,
+    info?: SaveSlotInfo<Preview>
+  ): Promise<SaveSlotMetadata<Preview>>;
+
+  /** Loads a slot into a state. Rejects with @see SaveSlotCorruptError if the slot can't be loaded */
+  load(id: string | number, state: Partial<S>): Promise<Partial<S>>;
+
+  /** Copies a slot into another slot, overwriting the target if it exists */
+  copy(from: string | number, to: string | number): Promise<void>;
+
+  /** Changes the label of a slot */
+  rename(id: string | number, label: string): Promise<void>;
+
+  /** Deletes a slot */
+  remove(id: string | number): Promise<void>;
+
+  /** Makes the index consistent with the slots actually in storage */
+  repair(): Promise<void>;
+}
+
+/**
+ * Thrown when operating on a save slot that doesn't exist
+ */
+export class SaveSlotNotFoundError extends BackupError {
+  /** Missing slot id */
+  readonly id: string;
+
+  constructor(id: string) {
+    super(`Save slot ${id} does not exist.`);
+    this.name = 'SaveSlotNotFoundError';
+    this.id = id;
+  }
+}
+
+/**
+ * Thrown when loading a save slot that can't be read or fails to load, so the save can be reported as corrupt
+ */
+export class SaveSlotCorruptError extends BackupError {
+  /** Corrupt slot id */
+  readonly id: string;
+
+  /** Error thrown while loading the slot */
+  readonly cause: unknown;
+
+  constructor(id: string, cause: unknown) {
+    super(`Save slot ${id} is corrupt: ${cause}`);
+    this.name = 'SaveSlotCorruptError';
+    this.id = id;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Creates a save slot manager. Each slot is saved with @see saveToStorageAsync under its own key,
+ * and an index key holds the metadata of every slot.
+ * @param adapter Storage adapter to save to. Use @see createStorageAdapter for localStorage
+ * @param backupInterface Backup interface used to save and load slots
+ * @param options Save slot options
+ */
+export function createSaveSlotManager<
+  S extends Record<string, unknown>,
+  Preview = unknown
+>(
+  adapter: AsyncStorageAdapter,
+  backupInterface: StateBackupInterface<S>,
+  options: SaveSlotManagerOptions<S, Preview> = {}
+): SaveSlotManager<S, Preview> {
+  const prefix = options.prefix ?? 'saves';
+  const indexKey = `${prefix}/index`;
+  const slotPrefix = `${prefix}/slot/`;
+  const slotKey = (id: string) => slotPrefix + id;
+
+  // Operations run one at a time so the index is never read while another operation is writing it
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const readIndex = async (): Promise<SaveSlotMetadata<Preview>[]> => {
+    const json = await adapter.get(indexKey);
+    return json ? JSON.parse(json) : [];
+  };
+
+  const writeIndex = (index: SaveSlotMetadata<Preview>[]) =>
+    adapter.set(indexKey, JSON.stringify(index));
+
+  // Replaces or adds a slot's metadata
+  const setEntry = (
+    index: SaveSlotMetadata<Preview>[],
+    entry: SaveSlotMetadata<Preview>
+  ) => [...index.filter(other => other.id !== entry.id), entry];
+
+  const requireEntry = (index: SaveSlotMetadata<Preview>[], id: string) => {
+    const entry = index.find(other => other.id === id);
+    if (!entry) {
+      throw new SaveSlotNotFoundError(id);
+    }
+    return entry;
+  };
+
+  return {
+    list: () =>
+      enqueue(async () =>
+        (await readIndex()).sort((a, b) => b.timestamp - a.timestamp)
+      ),
+
+    get: id =>
+      enqueue(async () =>
+        (await readIndex()).find(entry => entry.id === String(id))
+      ),
+
+    save: (id, state, info = {}) =>
+      enqueue(async () => {
+        const entry: SaveSlotMetadata<Preview> = {
+          preview: options.preview?.(state),
+          ...info,
+          id: String(id),
+          timestamp: Date.now(),
+        };
+
+        // Write the slot before the index so the index never points at missing data
+        await saveToStorageAsync(
+          adapter,
+          slotKey(entry.id),
+          state,
+          backupInterface,
+          options
+        );
+        await writeIndex(setEntry(await readIndex(), entry));
+        return entry;
+      }),
+
+    load: (id, state) =>
+      enqueue(async () => {
+        const entry = requireEntry(await readIndex(), String(id));
+
+        // The index can point at a slot whose data was never written or was removed
+        if ((await adapter.get(slotKey(entry.id))) === undefined) {
+          throw new SaveSlotNotFoundError(entry.id);
+        }
+        try {
+          return await readFromStorageAsync(
+            state,
+            adapter,
+            slotKey(String(id)),
+            backupInterface,
+            options
+          );
+        } catch (error) {
+          // Newer and tampered saves keep their own errors
+          if (
+            error instanceof BackupVersionError ||
+            error instanceof BackupSignatureError ||
+            error instanceof BackupDecryptionError
+          ) {
+            throw error;
+          }
+          throw new SaveSlotCorruptError(String(id), error);
+        }
+      }),
+
+    copy: (from, to) =>
+      enqueue(async () => {
+        const index = await readIndex();
+        const entry = requireEntry(index, String(from));
+        const data = await adapter.get(slotKey(entry.id));
+        if (data === undefined) {
+          throw new SaveSlotNotFoundError(entry.id);
+        }
+
+        await adapter.set(slotKey(String(to)), data);
+        await writeIndex(setEntry(index, { ...entry, id: String(to) }));
+      }),
+
+    rename: (id, label) =>
+      enqueue(async () => {
+        const index = await readIndex();
+        const entry = requireEntry(index, String(id));
+        await writeIndex(setEntry(index, { ...entry, label }));
+      }),
+
+    remove: id =>
+      enqueue(async () => {
+        const index = await readIndex();
+        requireEntry(index, String(id));
+
+        // Remove from the index before removing the data
+        await writeIndex(index.filter(entry => entry.id !== String(id)));
+        await adapter.remove(slotKey(String(id)));
+      }),
+
+    repair: () =>
+      enqueue(async () => {
+        const index = await readIndex();
+        const slotIds = (await adapter.keys())
+          .filter(key => key.startsWith(slotPrefix))
+          .map(key => key.substr(slotPrefix.length));
+
+        // Drop entries without data, and add data without entries
+        const repaired = index.filter(entry => slotIds.includes(entry.id));
+        for (const id of slotIds) {
+          if (!repaired.some(entry => entry.id === id)) {
+            repaired.push({ id, timestamp: 0 });
+          }
+        }
+        await writeIndex(repaired);
+      }),
+  };
+}
@@ -1,9 +1,179 @@
+import { AsyncStorageAdapter, StoredData } from './adapters';
 import {
+  BackupLoadErrorPolicy,
+  BackupLoadReport,
   createBackup,
-  loadBackup,
+  loadBackupWithReport,
   StateBackupInterface,
   StoredState,
 } from './backup';
+import { BackupCodec, jsonCodec } from './codec';
+import {
+  BackupCompression,
+  compressBackup,
+  decompressBackup,
+} from './compress';
+import {
+  BackupEnvelopeOptions,
+  isSealedBackup,
+  openBackup,
+  sealBackup,
+} from './envelope';
+import {
+  BackupDecryptionError,
+  BackupError,
+  BackupSignatureError,
+  BackupVersionError,
+} from './errors';
+import { BackupVersionOptions, VersionedBackup } from './version';
+
+/**
+ * Options controlling how backups are written to storage
+ */
+export interface StorageOptions {
+  /** Codec used to encode backups. Defaults to @see jsonCodec */
+  codec?: BackupCodec;
+
+  /** Compresses backups. Compressed backups are detected when loading, so this can be turned on or off at any time. Defaults to no compression */
+  compression?: BackupCompression;
+
+  /** If set, saved backups are stamped with their schema versions, and loaded backups are migrated with these options. @see createBackup @see loadBackup */
+  versionOptions?: BackupVersionOptions;
+
+  /** What to do when a slice fails to load. By default, the whole backup is ignored. @see loadBackupWithReport */
+  onError?: BackupLoadErrorPolicy;
+
+  /** Called with the load report whenever a stored backup is loaded, listing the slices that loaded and the errors of the ones the error policy recovered from */
+  onReport?: (report: BackupLoadReport<Record<string, unknown>>) => void;
+}
+
+/**
+ * Options for storage that can only hold strings, like localStorage and sessionStorage
+ */
+export interface StringStorageOptions extends StorageOptions {
+  /** Compresses backups into UTF-16 safe strings. Defaults to no compression */
+  compression?: 'utf16';
+}
+
+/**
+ * Compression an async storage adapter can hold. Binary compression needs an adapter that stores bytes
+ */
+export type AdapterCompression<
+  Value extends StoredData
+> = Uint8Array extends Value ? BackupCompression : 'utf16';
+
+/**
+ * Options for async storage adapters
+ */
+export interface AsyncStorageOptions<Value extends StoredData = StoredData>
+  extends StorageOptions {
+  /** Compresses backups. 'binary' only works with adapters that store bytes. Defaults to no compression */
+  compression?: AdapterCompression<Value>;
+
+  /** Signs and/or encrypts backups. @see BackupEnvelopeOptions */
+  envelope?: BackupEnvelopeOptions;
+}
+
+/**
+ * Creates the save data for a state, encoded with the codec
+ * @param state Redux state
+ * @param backupInterface Backup interface to use when saving
+ * @param versionOptions If set, the backup is stamped with its schema versions
+ * @param codec Codec to encode with
+ */
+function encodeBackup<S extends Record<string, unknown>>(
+  state: S,
+  backupInterface: StateBackupInterface<S>,
+  versionOptions: BackupVersionOptions | undefined,
+  codec: BackupCodec = jsonCodec
+): unknown {
+  // Create save data
+  const saveData = versionOptions
+    ? createBackup(
+        state,
+        backupInterface,
+        versionOptions as BackupVersionOptions<
+          StoredState<S, typeof backupInterface>
+        >
+      )
+    : createBackup(state, backupInterface);
+
+  return codec.encode(saveData);
+}
+
+/**
+ * Serializes encoded save data, compressing it if enabled
+ * @param data Encoded save data
+ * @param compression Compression to use
+ */
+function serializeData(
+  data: unknown,
+  compression: BackupCompression | undefined
+): StoredData {
+  return compressBackup(JSON.stringify(data), compression);
+}
+
+/**
+ * Parses stored data, decompressing it if it was compressed
+ * @param storedData Serialized save data
+ * @returns Encoded save data, or undefined if nothing was stored
+ */
+function parseStoredData(
+  storedData: StoredData | null | undefined
+): unknown | undefined {
+  return storedData ? JSON.parse(decompressBackup(storedData)) : undefined;
+}
+
+/**
+ * Decodes encoded save data and loads it into the state
+ * @param state Existing state
+ * @param data Encoded save data
+ * @param backupInterface Backup interface to use
+ * @param options Storage options, with the codec, versioning options, error policy, and report callback
+ */
+function loadEncodedBackup<S extends Record<string, unknown>>(
+  state: Partial<S>,
+  data: unknown,
+  backupInterface: StateBackupInterface<S>,
+  { versionOptions, onError, onReport, codec = jsonCodec }: StorageOptions
+): Partial<S> {
+  const loadedData = codec.decode(data) as
+    | StoredState<S, typeof backupInterface>
+    | VersionedBackup<StoredState<S, typeof backupInterface>>
+    | undefined;
+
+  // Nothing stored
+  if (!loadedData) {
+    return state;
+  }
+
+  const report = loadBackupWithReport(state, backupInterface, loadedData, {
+    versionOptions: versionOptions as BackupVersionOptions<
+      StoredState<S, typeof backupInterface>
+    >,
+    onError,
+  });
+
+  onReport?.(report);
+  return report.state;
+}
+
+/**
+ * Reports an error that happened while loading from storage
+ * @param error Error thrown
+ * @param key Storage key
+ */
+function handleLoadError(error: unknown, key: string): void {
+  // Backups from newer versions and backups that fail verification must not be silently ignored
+  if (
+    error instanceof BackupVersionError ||
+    error instanceof BackupSignatureError ||
+    error instanceof BackupDecryptionError
+  ) {
+    throw error;
+  }
+  console.error(`Error loading state from storage key ${key}: ${error}`);
+}
 
 /**
  * Saves a state to storage using a backup interface
@@ -11,18 +181,23 @@ import {
  * @param key Key to save it into
  * @param state Redux state
  * @param backupInterface Backup interface to use when saving
+ * @param options Storage options, such as the codec, compression, and versioning options. @see StringStorageOptions
  */
 export function saveToStorage<S extends Record<string, unknown>>(
   storage: Storage,
   key: string,
   state: S,
-  backupInterface: StateBackupInterface<S>
+  backupInterface: StateBackupInterface<S>,
+  options?: StringStorageOptions
 ): void {
-  // Create save data
-  const saveData = createBackup(state, backupInterface);
-
-  // Store it
-  storage.setItem(key, JSON.stringify(saveData));
+  // String options never create binary data
+  const data = encodeBackup(
+    state,
+    backupInterface,
+    options?.versionOptions,
+    options?.codec
+  );
+  storage.setItem(key, serializeData(data, options?.compression) as string);
 }
 
 /**
@@ -31,32 +206,122 @@ export function saveToStorage<S extends Record<string, unknown>>(
  * @param storage Storage to load from (localStorage or sessionStorage)
  * @param key Storage key
  * @param backupInterface Backup interface to use
+ * @param options Storage options the backup was saved with, plus versioning options to migrate old backups and the error policy. @see StringStorageOptions
  */
 export function loadFromStorage<S extends Record<string, unknown>>(
   state: Partial<S>,
   storage: Storage,
   key: string,
-  backupInterface: StateBackupInterface<S>
+  backupInterface: StateBackupInterface<S>,
+  options: StringStorageOptions = {}
 ): Partial<S> {
   // Can throw exceptions for storage I guess
   try {
-    // Try to load from storage
-    const storedStateJSON = storage.getItem(key);
-    if (storedStateJSON) {
-      // Parse
-      const loadedData = JSON.parse(storedStateJSON) as
-        | StoredState<S, typeof backupInterface>
-        | undefined;
-
-      // Process
-      if (loadedData) {
-        return loadBackup(state, backupInterface, loadedData);
-      }
+    const data = parseStoredData(storage.getItem(key));
+    if (isSealedBackup(data)) {
+      throw new BackupError(
+        'Sealed backups can only be loaded with loadFromStorageAsync.'
+      );
     }
+    return loadEncodedBackup(state, data, backupInterface, options);
   } catch (error) {
-    console.error(`Error loading state from storage key ${key}: ${error}`);
+    handleLoadError(error, key);
   }
 
   // Return original state
   return state;
 }
+
+/**
+ * Saves a state to an async storage adapter using a backup interface
+ * @param adapter Storage adapter to save to. Binary compression needs an adapter that stores bytes. @see AsyncStorageAdapter
+ * @param key Key to save it into
+ * @param state Redux state
+ * @param backupInterface Backup interface to use when saving
+ * @param options Storage options, such as the codec, compression, envelope, and versioning options. @see AsyncStorageOptions
+ */
+export async function saveToStorageAsync<
+  S extends Record<string, unknown>,
+  Value extends StoredData = string
+>(
+  adapter: AsyncStorageAdapter<Value>,
+  key: string,
+  state: S,
+  backupInterface: StateBackupInterface<S>,
+  options: AsyncStorageOptions<Value> = {}
+): Promise<void> {
+  let data = encodeBackup(
+    state,
+    backupInterface,
+    options.versionOptions,
+    options.codec
+  );
+  if (options.envelope) {
+    data = await sealBackup(
+      data,
+      options.envelope,
+      Object.keys(backupInterface)
+    );
+  }
+  await adapter.set(key, serializeData(data, options.compression) as Value);
+}
+
+/**
+ * Loads a state saved via @see saveToStorageAsync
+ * @param state Existing state
+ * @param adapter Storage adapter to load from. @see AsyncStorageAdapter
+ * @param key Storage key
+ * @param backupInterface Backup interface to use
+ * @param options Storage options the backup was saved with, plus versioning options to migrate old backups and the error policy.
+ * Throws @see BackupSignatureError or @see BackupDecryptionError if an envelope fails verification. @see AsyncStorageOptions
+ */
+export async function loadFromStorageAsync<
+  S extends Record<string, unknown>,
+  Value extends StoredData = string
+>(
+  state: Partial<S>,
+  adapter: AsyncStorageAdapter<Value>,
+  key: string,
+  backupInterface: StateBackupInterface<S>,
+  options: AsyncStorageOptions<Value> = {}
+): Promise<Partial<S>> {
+  try {
+    return await readFromStorageAsync(
+      state,
+      adapter,
+      key,
+      backupInterface,
+      options
+    );
+  } catch (error) {
+    handleLoadError(error, key);
+  }
+
+  // Return original state
+  return state;
+}
+
+/**
+ * Loads a state saved via @see saveToStorageAsync, throwing any error instead of logging it. Used by save slots
+ * @param state Existing state
+ * @param adapter Storage adapter to load from
+ * @param key Storage key
+ * @param backupInterface Backup interface to use
+ * @param options Storage options the backup was saved with. @see AsyncStorageOptions
+ */
+export async function readFromStorageAsync<
+  S extends Record<string, unknown>,
+  Value extends StoredData = string
+>(
+  state: Partial<S>,
+  adapter: AsyncStorageAdapter<Value>,
+  key: string,
+  backupInterface: StateBackupInterface<S>,
+  options: AsyncStorageOptions<Value> = {}
+): Promise<Partial<S>> {
+  let data = parseStoredData(await adapter.get(key));
+  if (data !== undefined && (options.envelope || isSealedBackup(data))) {
+    data = await openBackup(data, options.envelope ?? {});
+  }
+  return loadEncodedBackup(state, data, backupInterface, options);
+}
@@ -0,0 +1,346 @@
+import { AnyAction, createAction, Middleware, Reducer } from '@reduxjs/toolkit';
+import {
+  createBackup,
+  loadBackup,
+  StateBackupInterface,
+  StoredState,
+} from './backup';
+import { jsonCodec } from './codec';
+import {
+  createSaveScheduler,
+  SaveScheduler,
+  SessionSaveOptions,
+} from './session';
+
+/**
+ * Message broadcast to other tabs by @see createSyncMiddleware
+ */
+export interface SyncMessage {
+  /** Id of the tab that sent the message */
+  origin: string;
+
+  /** Backup of the sender's state, encoded with the codec */
+  backup: unknown;
+
+  /** Time every slice last changed in the sender's tab (milliseconds since epoch) */
+  timestamps: Record<string, number>;
+}
+
+/**
+ * Sends sync messages between tabs. @see createBroadcastChannelTransport @see createStorageEventTransport
+ */
+export interface SyncTransport {
+  /** Sends a message to every other tab */
+  post(message: SyncMessage): void;
+
+  /** Listens for messages from other tabs. Returns a function that stops listening */
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+}
+
+/**
+ * Merges a slice changed in two tabs
+ * @param local Stored slice in this tab
+ * @param remote Stored slice received from another tab
+ * @returns The stored slice both tabs should end up with. Merging a slice with itself must return the same slice
+ */
+export type SyncMergeFunction<Stored> = (
+  local: Stored,
+  remote: Stored
+) => Stored;
+
+/**
+ * Merge functions for some slices in a backup interface
+ */
+export type SyncMergeFunctions<
+  S,
+  BackupInterface extends StateBackupInterface<S>
+> = {
+  [K in keyof StoredState<S, BackupInterface>]?: SyncMergeFunction<
+    Exclude<StoredState<S, BackupInterface>[K], undefined>
+  >;
+};
+
+/**
+ * Options for @see createSyncMiddleware
+ */
+export interface SyncMiddlewareOptions<
+  S,
+  BackupInterface extends StateBackupInterface<S>
+> extends SessionSaveOptions {
+  /** Id of this tab. Defaults to a random id */
+  id?: string;
+
+  /** Merges slices instead of keeping the last written one. Slices without a merge function (or missing in either tab) use last-writer-wins */
+  merge?: SyncMergeFunctions<S, BackupInterface>;
+}
+
+/**
+ * Middleware created by @see createSyncMiddleware
+ */
+export type SyncMiddleware<S> = Middleware<unknown, S> & {
+  /** Immediately broadcasts any changes waiting on a debounce or throttle */
+  flush(): void;
+
+  /** Stops listening to other tabs and to the page being hidden. Changes waiting on a debounce or throttle are dropped */
+  close(): void;
+};
+
+/** Applies slices received from another tab. Handled by @see createSyncReducer */
+export const syncHydrate = createAction<Record<string, unknown>>(
+  'BackupSync.hydrate'
+);
+
+/**
+ * Wraps a reducer so it loads slices received from other tabs via @see loadBackup. Slices that weren't received are left as they are
+ * @param reducer Reducer to wrap
+ * @param backupInterface Backup interface used by the sync middleware
+ */
+export function createSyncReducer<
+  S extends Record<string, unknown>,
+  A extends AnyAction
+>(
+  reducer: Reducer<S, A>,
+  backupInterface: StateBackupInterface<S>
+): Reducer<S, A> {
+  return (state, action) => {
+    if (state !== undefined && syncHydrate.match(action)) {
+      // Slices that weren't received are still loaded from this tab's state, for slices depending on them
+      const loaded = loadBackup(state, backupInterface, {
+        ...createBackup(state, backupInterface),
+        ...action.payload,
+      } as StoredState<S, StateBackupInterface<S>>);
+
+      // Only received slices change, so the others keep anything their backup interface doesn't store
+      const next = { ...state };
+      for (const key in action.payload) {
+        next[key as keyof S] = loaded[key] as S[keyof S];
+      }
+      return next;
+    }
+    return reducer(state, action);
+  };
+}
+
+/**
+ * Creates a middleware that keeps the backed up slices of the state in sync with other tabs.
+ * Every change is broadcast through the transport, and backups received from other tabs are applied with @see syncHydrate.
+ * When a slice changed in both tabs, the last change wins, unless the slice has a merge function.
+ * The root reducer must be wrapped with @see createSyncReducer.
+ * @param backupInterface Backup interface of the slices to sync
+ * @param transport Transport to send messages through
+ * @param options Options controlling when to broadcast and how to resolve conflicts. @see SyncMiddlewareOptions
+ */
+export function createSyncMiddleware<
+  S extends Record<string, unknown>,
+  BackupInterface extends StateBackupInterface<S> = StateBackupInterface<S>
+>(
+  backupInterface: BackupInterface,
+  transport: SyncTransport,
+  options: SyncMiddlewareOptions<S, BackupInterface> = {}
+): SyncMiddleware<S> {
+  const id =
+    options.id ??
+    `${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2)}`;
+  const codec = options.codec ?? jsonCodec;
+  const merge = (options.merge ?? {}) as Record<
+    string,
+    SyncMergeFunction<unknown> | undefined
+  >;
+
+  // Time every slice last changed, locally or in another tab
+  const timestamps: Record<string, number> = {};
+
+  let scheduler: SaveScheduler | undefined;
+  let unsubscribe: (() => void) | undefined;
+
+  const middleware: Middleware<unknown, S> = store => {
+    const broadcast = (state: S) =>
+      transport.post({
+        origin: id,
+        backup: codec.encode(createBackup(state, backupInterface)),
+        timestamps: { ...timestamps },
+      });
+
+    const receive = (message: SyncMessage) => {
+      if (message.origin === id) {
+        return;
+      }
+
+      const local = createBackup(store.getState(), backupInterface) as Record<
+        string,
+        unknown
+      >;
+      const remote = codec.decode(message.backup) as Record<string, unknown>;
+      const same = (a: unknown, b: unknown) =>
+        JSON.stringify(codec.encode(a)) === JSON.stringify(codec.encode(b));
+
+      // Only slices that end up different from this tab's are hydrated
+      const changed: Record<string, unknown> = {};
+      let rebroadcast = false;
+
+      for (const key in backupInterface) {
+        const localTime = timestamps[key] ?? 0;
+        const remoteTime = message.timestamps[key] ?? 0;
+        const mergeSlice = merge[key];
+        let value: unknown;
+
+        if (
+          mergeSlice &&
+          local[key] !== undefined &&
+          remote[key] !== undefined
+        ) {
+          // Merged slices differing from the remote slice have to be sent back so both tabs agree
+          value = mergeSlice(local[key], remote[key]);
+          if (!same(value, remote[key])) {
+            timestamps[key] = Date.now();
+            rebroadcast = true;
+          } else {
+            timestamps[key] = Math.max(localTime, remoteTime);
+          }
+        } else if (
+          remoteTime > localTime ||
+          (remoteTime === localTime && remoteTime > 0 && message.origin > id)
+        ) {
+          // Last writer wins. Ties are broken by tab id so both tabs pick the same winner
+          value = remote[key];
+          timestamps[key] = remoteTime;
+        } else {
+          continue;
+        }
+
+        if (!same(value, local[key])) {
+          changed[key] = value;
+        }
+      }
+
+      if (Object.keys(changed).length > 0) {
+        store.dispatch(syncHydrate(changed));
+      }
+      if (rebroadcast) {
+        broadcast(store.getState());
+      }
+    };
+
+    const storeScheduler = createSaveScheduler(
+      store.getState,
+      backupInterface,
+      options,
+      broadcast
+    );
+    scheduler?.dispose();
+    scheduler = storeScheduler;
+    unsubscribe?.();
+    unsubscribe = transport.subscribe(receive);
+
+    return next => action => {
+      // Backups from other tabs are not sent back
+      if (syncHydrate.match(action)) {
+        return next(action);
+      }
+
+      // Run dispatch first
+      const previous = store.getState();
+      const result = next(action);
+
+      // Remember when slices changed (slices are immutable so a reference check is enough)
+      const state = store.getState();
+      for (const key in backupInterface) {
+        if (state[key] !== previous[key]) {
+          timestamps[key] = Date.now();
+        }
+      }
+
+      // Schedule a broadcast
+      storeScheduler.request(action);
+
+      // Return result
+      return result;
+    };
+  };
+
+  return Object.assign(middleware, {
+    flush: () => scheduler?.flush(),
+    close: () => {
+      unsubscribe?.();
+      unsubscribe = undefined;
+      scheduler?.dispose();
+      scheduler = undefined;
+    },
+  });
+}
+
+/**
+ * Creates a sync transport using a BroadcastChannel
+ * @param name Channel name. Every tab has to use the same name
+ */
+export function createBroadcastChannelTransport(name: string): SyncTransport {
+  const channel = new BroadcastChannel(name);
+  return {
+    post: message => channel.postMessage(message),
+    subscribe: listener => {
+      const handler = (event: MessageEvent) => listener(event.data);
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+  };
+}
+
+/**
+ * Creates a sync transport using storage events. Works in browsers without BroadcastChannel
+ * @param key Storage key used to pass messages
+ * @param storage Storage to pass messages through. Defaults to localStorage
+ */
+export function createStorageEventTransport(
+  key: string,
+  storage: Storage = localStorage
+): SyncTransport {
+  return {
+    post: message => storage.setItem(key, JSON.stringify(message)),
+    subscribe: listener => {
+      // Storage events only fire in the other tabs
+      const handler = (event: StorageEvent) => {
+        if (
+          event.key === key &&
+          event.storageArea === storage &&
+          event.newValue
+        ) {
+          listener(JSON.parse(event.newValue));
+        }
+      };
+      window.addEventListener('storage', handler);
+      return () => window.removeEventListener('storage', handler);
+    },
+  };
+}
+
+/**
+ * Connects in-memory sync transports to each other. Useful for tests.
+ * Messages are delivered synchronously to every other connected transport.
+ */
+export function createMemorySyncHub(): { connect(): SyncTransport } {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  return {
+    connect: () => {
+      const own = new Set<(message: SyncMessage) => void>();
+      return {
+        post: message => {
+          for (const listener of Array.from(listeners)) {
+            if (!own.has(listener)) {
+              listener(message);
+            }
+          }
+        },
+        subscribe: listener => {
+          listeners.add(listener);
+          own.add(listener);
+          return () => {
+            listeners.delete(listener);
+            own.delete(listener);
+          };
+        },
+      };
+    },
+  };
+}
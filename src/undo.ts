@@ -11,25 +11,35 @@ import {
   StateOrSlice,
   StoredState,
 } from './backup';
+import { BackupCodec } from './codec';
 import {
   createHistory,
   historyIterator,
   restore,
-  restoreWithRewind,
+  reverseHistory,
   StateDelta,
 } from './diff';
+import { UndoBranchError, UndoRangeError } from './errors';
+import {
+  estimateDeltaSize,
+  estimateMomentSize,
+  pruneMoments,
+  UndoPruningStrategy,
+} from './prune';
 
-type UndoMoment<
+/** Backup of the state at some point in the undo history */
+export type UndoMoment<
   S,
   BackupInterface extends StateBackupInterface<S>
 > = StoredState<S, BackupInterface>;
-type UndoMomentDiff<
+/** Diff between two undo moments */
+export type UndoMomentDiff<
   S,
   BackupInterface extends StateBackupInterface<S>
 > = StateDelta<UndoMoment<S, BackupInterface>>;
 
 /** Redux state with undo/redo support. @see createUndoableReducer */
-type UndoableState<
+export type UndoableState<
   S extends Record<string, unknown>,
   BackupInterface extends StateBackupInterface<S>
 > = S & {
@@ -41,8 +51,180 @@ type UndoableState<
 
   /** Future moments. These are created anytime an undo action is called. Restore with redo. This list is cleared whenever any non-undo/redo action is called */
   future: UndoMomentDiff<S, BackupInterface>[];
+
+  /** Undo data besides the moments themselves. Kept under one key so it can't collide with slices of the state */
+  undoMeta: UndoMeta<S, BackupInterface>;
 };
 
+/** Undo data in an undoable state besides the history, present and future moments. @see UndoableState */
+export interface UndoMeta<S, BackupInterface extends StateBackupInterface<S>> {
+  /** Information about the action each history moment undoes, in lockstep with history. Undefined if unknown */
+  historyInfo: (UndoMomentInfo | undefined)[];
+
+  /** Information about the action each future moment redoes, in lockstep with future. Undefined if unknown */
+  futureInfo: (UndoMomentInfo | undefined)[];
+
+  /** Snapshots taken when each open transaction began, outermost first. Undoable actions don't create moments while this is non-empty */
+  transactions: UndoMoment<S, BackupInterface>[];
+
+  /** Coalescing information about the action that created the present moment. @see UndoCoalesceOptions */
+  lastMoment: UndoCoalesceInfo | undefined;
+
+  /** Abandoned redo branches hanging off moments in the current history and future. Only used with the branching option */
+  branches: UndoBranchPoint<UndoMomentDiff<S, BackupInterface>>[];
+
+  /** Full copies of some moments in the history and future, ordered by depth. Only used with the checkpoints option */
+  checkpoints: UndoCheckpoint<UndoMoment<S, BackupInterface>>[];
+}
+
+/** Keys added to the state by @see createUndoableReducer */
+const undoStateKeys = ['history', 'future', 'present', 'undoMeta'];
+
+/**
+ * An abandoned redo path in an undo tree
+ */
+export interface UndoBranch<Diff> {
+  /** Moments in the branch, stored as diffs going forward from the branch point (like future) */
+  moments: Diff[];
+
+  /** Information about the action each moment in the branch redoes, in lockstep with moments */
+  info: (UndoMomentInfo | undefined)[];
+
+  /** Branches leaving moments in this branch. Their depth is the number of moments into this branch */
+  branches: UndoBranchPoint<Diff>[];
+}
+
+/**
+ * A branch attached to a moment
+ */
+export interface UndoBranchPoint<Diff> {
+  /** Depth of the moment the branch leaves from. For branches in the state, this is the number of history moments before it */
+  depth: number;
+
+  /** The branch */
+  branch: UndoBranch<Diff>;
+}
+
+/**
+ * A full copy of a moment, so moments far from the present can be restored without applying every diff in between
+ */
+export interface UndoCheckpoint<Moment> {
+  /** Depth of the moment. This is the number of history moments before it */
+  depth: number;
+
+  /** The moment */
+  moment: Moment;
+}
+
+/**
+ * Policy for keeping checkpoints in the history. A checkpoint is kept when either limit is reached
+ */
+export interface UndoCheckpointOptions {
+  /** Keeps a checkpoint every this many moments */
+  interval?: number;
+
+  /** Keeps a checkpoint once the diffs since the last one add up to this many bytes. @see estimateDeltaSize */
+  bytes?: number;
+}
+
+/**
+ * Information about the undoable action that created a moment, for showing in a history panel
+ */
+export interface UndoMomentInfo<Data = unknown> {
+  /** Action type */
+  type: string;
+
+  /** Human readable label. @see UndoableReducerOptions.label */
+  label: string | undefined;
+
+  /** Time the moment was saved (milliseconds since epoch) */
+  timestamp: number;
+
+  /** Extra data. @see UndoableReducerOptions.data */
+  data?: Data;
+}
+
+/** Coalescing information about the action that created a moment */
+interface UndoCoalesceInfo {
+  /** Coalesce key of the action */
+  key: string;
+
+  /** Time the moment was saved (milliseconds since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Policy for merging rapid consecutive undoable actions (like keystrokes) into a single history moment
+ */
+export interface UndoCoalesceOptions<A extends Action<string>> {
+  /** Actions with the same key less than this many milliseconds after the previous one are merged into its moment */
+  window: number;
+
+  /** Gets the coalesce key of an action, or undefined if it should never be merged. Defaults to meta.coalesceKey, then the action type */
+  key?: (action: A) => string | undefined;
+}
+
+/**
+ * Options for @see createUndoableReducer
+ */
+export interface UndoableReducerOptions<A extends Action<string>> {
+  /** History limit (undefined means infinite): the most history moments kept, and so the most undos in a row. Versions before pruning kept one extra moment. The future is limited to the same number of moments */
+  historyLimit?: number;
+
+  /** Estimated size limit of the history diffs in bytes (undefined means infinite). The future has its own budget of the same size. @see estimateDeltaSize */
+  historyBudget?: number;
+
+  /** Decides which moments to drop or merge when over the history limit or budget. Defaults to @see pruneDropOldest */
+  pruning?: UndoPruningStrategy;
+
+  /** Merges rapid consecutive undoable actions into a single moment. @see UndoCoalesceOptions */
+  coalesce?: UndoCoalesceOptions<A>;
+
+  /** Gets a human readable label for the moment an undoable action creates. Defaults to meta.label */
+  label?: (action: A) => string | undefined;
+
+  /** Gets extra data to store with the moment an undoable action creates */
+  data?: (action: A) => unknown;
+
+  /** Keeps the future as a branch instead of discarding it when an undoable action runs after an undo. @see switchBranch */
+  branching?: boolean;
+
+  /** Marks more actions undoable, besides those with /undoable/ in their type (like thunk lifecycle actions). @see SliceAddon.isUndoableAction */
+  undoable?: (action: A) => boolean;
+
+  /** Codec moments are diffed in. Use @see richJsonCodec if saved slices contain types like Date, Map, or Set. Defaults to @see jsonCodec */
+  codec?: BackupCodec;
+
+  /** Keeps full copies of some moments so restoring moments far from the present takes a bounded number of diffs. Checkpoints count towards the history budget. @see UndoCheckpointOptions */
+  checkpoints?: UndoCheckpointOptions;
+
+  /** Called with the error when an undo action can't be handled, like undoing to a moment that doesn't exist. The state is left as it is. Defaults to logging the error outside production */
+  onInvalidAction?: (error: UndoRangeError | UndoBranchError) => void;
+}
+
+/** Options used when creating and storing moments */
+type MomentOptions = Omit<
+  UndoableReducerOptions<Action<string>>,
+  'coalesce' | 'label' | 'data' | 'undoable' | 'onInvalidAction'
+>;
+
+/**
+ * Creates the undo data of a state with no history
+ */
+export function createUndoMeta<
+  S,
+  BackupInterface extends StateBackupInterface<S>
+>(): UndoMeta<S, BackupInterface> {
+  return {
+    historyInfo: [],
+    futureInfo: [],
+    transactions: [],
+    lastMoment: undefined,
+    branches: [],
+    checkpoints: [],
+  };
+}
+
 /**
  * Creates a type name for an undoable action
  * @param feature Feature name
@@ -73,14 +255,86 @@ export const redo = createAction('UndoRedo.redo');
 /** Updates the present moment with the current state */
 export const apply = createAction('UndoRedo.apply');
 
+/** Undoes back to a history moment. Index 0 is the most recent history moment (the same as undo) */
+export const undoTo = createAction<number>('UndoRedo.undoTo');
+
+/** Redoes forward to a future moment. Index 0 is the next future moment (the same as redo) */
+export const redoTo = createAction<number>('UndoRedo.redoTo');
+
+/** Moves through the history by an offset from the present moment. Negative offsets undo, positive offsets redo */
+export const jumpToMoment = createAction<number>('UndoRedo.jumpToMoment');
+
+/** Clears the history and future, making the current state the present moment */
+export const clearHistory = createAction('UndoRedo.clearHistory');
+
+/** Makes an abandoned branch at the present moment the redo path. The current future becomes a branch in its place. @see getUndoBranches */
+export const switchBranch = createAction<number>('UndoRedo.switchBranch');
+
+/** Begins a transaction. Undoable actions until the matching commit are grouped into a single history moment. Transactions can be nested */
+export const beginTransaction = createAction('UndoRedo.beginTransaction');
+
+/** Commits the innermost transaction. Committing the outermost transaction creates one history moment for everything done inside it, labeled with the payload */
+export const commitTransaction = createAction<string | undefined>(
+  'UndoRedo.commitTransaction'
+);
+
+/** Cancels the innermost transaction, rolling the state back to how it was when the transaction began */
+export const cancelTransaction = createAction('UndoRedo.cancelTransaction');
+
+/**
+ * Gets the coalescing information for an undoable action
+ * @param action Action creating a moment
+ * @param options Coalescing options
+ */
+function getCoalesceInfo<A extends Action<string>>(
+  action: A,
+  options: UndoCoalesceOptions<A> | undefined
+): UndoCoalesceInfo | undefined {
+  if (!options) {
+    return undefined;
+  }
+
+  const key = options.key
+    ? options.key(action)
+    : (action as { meta?: { coalesceKey?: string } }).meta?.coalesceKey ??
+      action.type;
+  return key === undefined ? undefined : { key, timestamp: Date.now() };
+}
+
+/**
+ * Gets the information to store with a moment created by an action
+ * @param action Action creating a moment
+ * @param options Reducer options with the label and data functions
+ */
+function getMomentInfo<A extends Action<string>>(
+  action: A,
+  { label, data }: UndoableReducerOptions<A>
+): UndoMomentInfo {
+  let momentLabel = label
+    ? label(action)
+    : (action as { meta?: { label?: string } }).meta?.label;
+
+  // Transactions can be labeled when they're committed
+  if (commitTransaction.match(action) && action.payload !== undefined) {
+    momentLabel = action.payload;
+  }
+
+  return {
+    type: action.type,
+    label: momentLabel,
+    timestamp: Date.now(),
+    data: data?.(action),
+  };
+}
+
 /**
  * Adds undo/redo support to a reducer. The resulting state
  * will include a "history", "future", and "present" data ( @see UndoableState ).
- * History moments are created whenever an incoming action includes the string /undoable/ in its type. @see createUndoableAction
+ * History moments are created whenever an incoming action includes the string /undoable/ in its type (or @see UndoableReducerOptions.undoable returns true for it). @see createUndoableAction
  * Use the @see undo and @see redo actions to restore states in the future/history lists
  * @param reducer Reducer to wrap
  * @param undoInterface Backup interface to store and restore undo points
- * @param historyLimit History limit (undefined means infinite)
+ * @param options History limit (undefined means infinite) or @see UndoableReducerOptions
  */
 export function createUndoableReducer<
   S extends StateOrSlice,
@@ -89,20 +343,31 @@ export function createUndoableReducer<
 >(
   reducer: Reducer<S, A>,
   undoInterface: BackupInterface,
-  historyLimit?: number
+  options?: number | UndoableReducerOptions<A>
 ): Reducer<UndoableState<S, BackupInterface>, A> {
+  const reducerOptions: UndoableReducerOptions<A> =
+    typeof options === 'number' ? { historyLimit: options } : options ?? {};
+  const {
+    coalesce,
+    label,
+    data,
+    undoable,
+    onInvalidAction,
+    ...momentOptions
+  } = reducerOptions;
+
   // Create wrapper reducer
   return (state, action) => {
     // Cache if this is the initialization call for initial state
     const isInit = !state || Object.keys(state).length === 0;
 
-    // Clip undo data out of the state (present, future, history)
+    // Clip undo data out of the state (present, future, history, etc.)
     let clippedState = undefined;
     if (state) {
       clippedState = { ...state } as S;
-      delete clippedState.history;
-      delete clippedState.future;
-      delete clippedState.present;
+      for (const key of undoStateKeys) {
+        delete clippedState[key];
+      }
     }
 
     // Run base reducer and migrate over our current history and future states
@@ -111,41 +376,271 @@ export function createUndoableReducer<
       history: state?.history ?? [],
       future: state?.future ?? [],
       present: state?.present ?? undefined,
+      undoMeta: state?.undoMeta ?? createUndoMeta(),
     };
 
-    // Handle undoable actions by creating save moments
-    if (action.type.indexOf('/undoable/') !== -1 || isInit) {
-      state = saveMoment(state, undoInterface, historyLimit);
+    // Handle undoable actions by creating save moments (unless they're part of a transaction)
+    if (isInit) {
+      state = saveMoment(state, undoInterface, momentOptions);
+    } else if (
+      (action.type.indexOf('/undoable/') !== -1 || undoable?.(action)) &&
+      state.undoMeta.transactions.length === 0
+    ) {
+      // Merge into the present moment if this action coalesces with the one that created it
+      const info = getCoalesceInfo(action, coalesce);
+      if (
+        coalesce &&
+        info &&
+        state.undoMeta.lastMoment?.key === info.key &&
+        info.timestamp - state.undoMeta.lastMoment.timestamp <
+          coalesce.window &&
+        state.history.length > 0 &&
+        state.future.length === 0
+      ) {
+        state = limitMoments(
+          updatePresentMoment(state, undoInterface, momentOptions.codec),
+          momentOptions
+        );
+      } else {
+        state = saveMoment(
+          state,
+          undoInterface,
+          momentOptions,
+          getMomentInfo(action, reducerOptions)
+        );
+      }
+      state = { ...state, undoMeta: { ...state.undoMeta, lastMoment: info } };
+    } else if (action.type.indexOf('UndoRedo.') === 0) {
+      // Moments restored or created by undo/redo actions never coalesce
+      state = {
+        ...state,
+        undoMeta: { ...state.undoMeta, lastMoment: undefined },
+      };
+    }
+
+    // Transaction actions
+    if (action.type === beginTransaction.type) {
+      state = {
+        ...state,
+        undoMeta: {
+          ...state.undoMeta,
+          transactions: [
+            ...state.undoMeta.transactions,
+            createBackup(state as S, undoInterface),
+          ],
+        },
+      };
+    } else if (
+      action.type === commitTransaction.type ||
+      action.type === cancelTransaction.type
+    ) {
+      state = endTransaction(
+        state,
+        undoInterface,
+        momentOptions,
+        action.type === cancelTransaction.type,
+        getMomentInfo(action, reducerOptions)
+      );
+    } else if (
+      state.undoMeta.transactions.length > 0 &&
+      action.type.indexOf('UndoRedo.') === 0
+    ) {
+      warnMisuse(
+        `Can't run ${action.type} during a transaction. Commit or cancel it first.`
+      );
+      return state;
     }
 
-    // Undo and redo actions
-    if (action.type === undo.type) {
-      state = restoreMoment(state, undoInterface, 1);
-    } else if (action.type === redo.type) {
-      state = restoreMoment(state, undoInterface, -1);
-    } else if (action.type === apply.type) {
-      state = updatePresentMoment(state, undoInterface);
+    // Undo and redo actions. Undo and redo do nothing at the ends of the history.
+    // Moments and branches that don't exist leave the state as it is, since reducers shouldn't throw
+    try {
+      if (action.type === undo.type) {
+        if (state.history.length > 0) {
+          state = restoreMoment(state, undoInterface, momentOptions, 1);
+        }
+      } else if (action.type === redo.type) {
+        if (state.future.length > 0) {
+          state = restoreMoment(state, undoInterface, momentOptions, -1);
+        }
+      } else if (action.type === apply.type) {
+        state = limitMoments(
+          updatePresentMoment(state, undoInterface, momentOptions.codec),
+          momentOptions
+        );
+      } else if (undoTo.match(action)) {
+        state = restoreMoment(
+          state,
+          undoInterface,
+          momentOptions,
+          indexToDistance(state, action.payload, 1)
+        );
+      } else if (redoTo.match(action)) {
+        state = restoreMoment(
+          state,
+          undoInterface,
+          momentOptions,
+          indexToDistance(state, action.payload, -1)
+        );
+      } else if (jumpToMoment.match(action)) {
+        state = restoreMoment(
+          state,
+          undoInterface,
+          momentOptions,
+          -action.payload
+        );
+      } else if (switchBranch.match(action)) {
+        state = changeBranch(state, action.payload);
+      } else if (action.type === clearHistory.type) {
+        state = {
+          ...state,
+          present: createBackup(state as S, undoInterface),
+          history: [],
+          future: [],
+          undoMeta: {
+            ...state.undoMeta,
+            historyInfo: [],
+            futureInfo: [],
+            branches: [],
+            checkpoints: [],
+          },
+        };
+      }
+    } catch (error) {
+      if (error instanceof UndoRangeError || error instanceof UndoBranchError) {
+        if (onInvalidAction) {
+          onInvalidAction(error);
+        } else {
+          warnMisuse(error.message);
+        }
+        return state;
+      }
+      throw error;
     }
 
     return state;
   };
 }
 
+/**
+ * Warns about an undo action that can't be handled. The reducer leaves the state as it is
+ * @param message What went wrong
+ */
+function warnMisuse(message: string) {
+  if (process.env.NODE_ENV !== 'production') {
+    console.error(message);
+  }
+}
+
+/**
+ * Converts a history or future index to a distance from the present moment
+ * @param state Undoable state
+ * @param index Index in the history (direction 1) or future (direction -1) list
+ * @param direction 1 for history, -1 for future
+ */
+function indexToDistance<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  index: number,
+  direction: 1 | -1
+): number {
+  // Negative indicies would otherwise point in the opposite direction
+  if (index < 0) {
+    throw new UndoRangeError(
+      direction * (index + 1),
+      state.history.length,
+      state.future.length
+    );
+  }
+  return direction * (index + 1);
+}
+
+function endTransaction<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  undoInterface: BackupInterface,
+  momentOptions: MomentOptions,
+  cancel: boolean,
+  info: UndoMomentInfo
+): UndoableState<S, BackupInterface> {
+  // Make sure there's a transaction to end
+  if (state.undoMeta.transactions.length === 0) {
+    warnMisuse('No transaction to end. Did you forget to begin one?');
+    return state;
+  }
+
+  // Pop the innermost transaction
+  const snapshot =
+    state.undoMeta.transactions[state.undoMeta.transactions.length - 1];
+  const transactions = state.undoMeta.transactions.slice(0, -1);
+
+  // Roll back to the snapshot when cancelling
+  if (cancel) {
+    state = loadBackup<S, StateBackupInterface<S>>(
+      state as S,
+      undoInterface,
+      snapshot
+    ) as UndoableState<S, BackupInterface>;
+    return { ...state, undoMeta: { ...state.undoMeta, transactions } };
+  }
+
+  // Committing the outermost transaction creates a single moment for the whole thing (if anything changed)
+  state = { ...state, undoMeta: { ...state.undoMeta, transactions } };
+  if (
+    transactions.length === 0 &&
+    createHistory(
+      createBackup(state as S, undoInterface),
+      snapshot,
+      momentOptions.codec
+    ) !== undefined
+  ) {
+    state = saveMoment(state, undoInterface, momentOptions, info);
+  }
+  return state;
+}
+
 function updatePresentMoment<
   S extends StateOrSlice,
   BackupInterface extends StateBackupInterface<S>
->(state: UndoableState<S, BackupInterface>, undoInterface: BackupInterface) {
+>(
+  state: UndoableState<S, BackupInterface>,
+  undoInterface: BackupInterface,
+  codec: BackupCodec | undefined
+) {
   // Create new present moment (this will be the new "present" moment)
   const present = createBackup(state, undoInterface);
 
+  // Branches and checkpoints from the present moment on no longer apply to it
+  const branches = state.undoMeta.branches.filter(
+    point => point.depth < state.history.length
+  );
+  const checkpoints = state.undoMeta.checkpoints.filter(
+    checkpoint => checkpoint.depth < state.history.length
+  );
+
   // If the moment is undefined OR we have no history, just return now
   if (present === undefined || state.history.length === 0) {
-    return { ...state, present, history: [], future: [] };
+    return {
+      ...state,
+      present,
+      history: [],
+      future: [],
+      undoMeta: {
+        ...state.undoMeta,
+        historyInfo: [],
+        futureInfo: [],
+        branches,
+        checkpoints: [],
+      },
+    };
   }
 
   // We need to update the most recent history diff to operate against the new present
-  const lastHistory = restore(state.present, state.history[0]);
-  const newHistoryDiff = createHistory(present, lastHistory);
+  const lastHistory = restore(state.present, state.history[0], codec);
+  const newHistoryDiff = createHistory(present, lastHistory, codec);
 
   // Create new state with new present, updated history list, and empty future
   return {
@@ -153,6 +648,7 @@ function updatePresentMoment<
     present,
     history: [newHistoryDiff].concat(state.history.slice(1)),
     future: [],
+    undoMeta: { ...state.undoMeta, futureInfo: [], branches, checkpoints },
   };
 }
 
@@ -162,75 +658,368 @@ function saveMoment<
 >(
   state: UndoableState<S, BackupInterface>,
   undoInterface: BackupInterface,
-  historyLimit: number | undefined
+  momentOptions: MomentOptions,
+  info?: UndoMomentInfo
 ): UndoableState<S, BackupInterface> {
   // Create new undo moment (this will be the new "present" moment)
   const present = createBackup(state as S, undoInterface);
 
+  // Keep the future as a branch if we're branching
+  let branches: UndoMomentBranchPoint<S, BackupInterface>[] = [];
+  if (momentOptions.branching) {
+    const stash = stashFuture(state);
+    branches = stash.stashed
+      ? [...stash.branches, stash.stashed]
+      : stash.branches;
+  }
+
   // Create a new history list
   const history = [
     // It begins with the last present moment diffed against the new present moment
     ...(state.present === undefined
       ? []
-      : [createHistory(present, state.present)]),
+      : [createHistory(present, state.present, momentOptions.codec)]),
 
-    // And ends with the rest of the history moments existing, capped to the history limit
-    ...state.history.slice(0, historyLimit),
+    // And ends with the rest of the history moments existing
+    ...state.history,
   ];
+  const historyInfo =
+    state.present === undefined
+      ? state.undoMeta.historyInfo
+      : [info, ...state.undoMeta.historyInfo];
 
-  return { ...state, present, history, future: [] };
+  // The future is gone, and the last present moment may become a checkpoint
+  const checkpoints = state.undoMeta.checkpoints.filter(
+    checkpoint => checkpoint.depth < state.history.length
+  );
+  if (
+    state.present !== undefined &&
+    momentOptions.checkpoints &&
+    needsCheckpoint(state, momentOptions.checkpoints)
+  ) {
+    checkpoints.push({ depth: state.history.length, moment: state.present });
+  }
+
+  // Cap the history to the limits
+  return limitMoments(
+    {
+      ...state,
+      present,
+      history,
+      future: [],
+      undoMeta: {
+        ...state.undoMeta,
+        historyInfo,
+        futureInfo: [],
+        branches,
+        checkpoints,
+      },
+    },
+    momentOptions
+  );
 }
 
-function restoreMoment<
+/**
+ * Checks if the present moment is far enough from the last checkpoint to become one
+ * @param state Undoable state
+ * @param options Checkpoint options
+ */
+function needsCheckpoint<
   S extends StateOrSlice,
   BackupInterface extends StateBackupInterface<S>
 >(
   state: UndoableState<S, BackupInterface>,
-  undoInterface: BackupInterface,
-  distance = 1
+  { interval, bytes }: UndoCheckpointOptions
+): boolean {
+  // Count the diffs back to the last checkpoint (or the oldest moment)
+  const depth = state.history.length;
+  const last = state.undoMeta.checkpoints.filter(
+    checkpoint => checkpoint.depth < depth
+  );
+  const count = depth - (last.length > 0 ? last[last.length - 1].depth : 0);
+  if (interval !== undefined && count >= interval) {
+    return true;
+  }
+
+  let size = 0;
+  for (let i = 0; i < count; i++) {
+    size += estimateDeltaSize(state.history[i]);
+  }
+  return bytes !== undefined && size >= bytes;
+}
+
+/**
+ * Prunes the history and future to fit in the history limit and budget
+ * @param state Undoable state
+ * @param momentOptions Limits and pruning strategy
+ */
+function limitMoments<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  { historyLimit, historyBudget, pruning, codec }: MomentOptions
 ): UndoableState<S, BackupInterface> {
-  // Trivial case: 0
-  if (distance === 0) {
-    // TODO: Maybe this should restore to present?
-    console.warn('Warning: Restoring moment 0. Does nothing.');
+  if (
+    state.present === undefined ||
+    (historyLimit === undefined && historyBudget === undefined)
+  ) {
     return state;
   }
 
-  // How did this happen?
-  if (state.present === undefined) {
-    console.error("Missing present moment. Can't do anything.");
+  const limits = { count: historyLimit, bytes: historyBudget };
+  const history = pruneMoments(
+    state.present,
+    state.history,
+    limits,
+    pruning,
+    codec
+  );
+  const future = pruneMoments(
+    state.present,
+    state.future,
+    limits,
+    pruning,
+    codec
+  );
+  if (history.moments === state.history && future.moments === state.future) {
+    return limitCheckpoints(state, historyBudget, codec);
+  }
+
+  // Map the depth of every remaining moment to its new depth
+  const oldDepth = state.history.length;
+  const newDepth = history.kept.length;
+  const depths = new Map([[oldDepth, newDepth]]);
+  history.kept.forEach((index, i) =>
+    depths.set(oldDepth - 1 - index, newDepth - 1 - i)
+  );
+  future.kept.forEach((index, i) =>
+    depths.set(oldDepth + 1 + index, newDepth + 1 + i)
+  );
+
+  // Pruned moments take their branches and checkpoints with them
+  const branches: UndoMomentBranchPoint<S, BackupInterface>[] = [];
+  for (const point of state.undoMeta.branches) {
+    const depth = depths.get(point.depth);
+    if (depth !== undefined) {
+      branches.push({ ...point, depth });
+    }
+  }
+  const checkpoints: UndoCheckpoint<UndoMoment<S, BackupInterface>>[] = [];
+  for (const checkpoint of state.undoMeta.checkpoints) {
+    const depth = depths.get(checkpoint.depth);
+    if (depth !== undefined) {
+      checkpoints.push({ ...checkpoint, depth });
+    }
+  }
+
+  return limitCheckpoints(
+    {
+      ...state,
+      history: history.moments,
+      future: future.moments,
+      undoMeta: {
+        ...state.undoMeta,
+        historyInfo: history.kept.map(
+          index => state.undoMeta.historyInfo[index]
+        ),
+        futureInfo: future.kept.map(index => state.undoMeta.futureInfo[index]),
+        branches,
+        checkpoints,
+      },
+    },
+    historyBudget,
+    codec
+  );
+}
+
+/**
+ * Drops checkpoints until the history and future fit in the budget along with their checkpoints.
+ * Moments are never dropped for checkpoints, and checkpoints closest to the present moment are kept first
+ * @param state Undoable state
+ * @param budget History budget in bytes (undefined means infinite)
+ * @param codec Codec moments are encoded with
+ */
+function limitCheckpoints<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  budget: number | undefined,
+  codec: BackupCodec | undefined
+): UndoableState<S, BackupInterface> {
+  if (budget === undefined || state.undoMeta.checkpoints.length === 0) {
     return state;
   }
 
-  // Get appropriate list
-  const list = distance > 0 ? state.history : state.future;
+  // Whatever the diffs leave of each budget is available for checkpoints
+  const depth = state.history.length;
+  const total = (diffs: UndoMomentDiff<S, BackupInterface>[]) =>
+    diffs.reduce((sum: number, diff) => sum + estimateDeltaSize(diff), 0);
+  let historyLeft = budget - total(state.history);
+  let futureLeft = budget - total(state.future);
+
+  const kept = new Set<UndoCheckpoint<UndoMoment<S, BackupInterface>>>();
+  const closestFirst = state.undoMeta.checkpoints
+    .slice()
+    .sort((a, b) => Math.abs(a.depth - depth) - Math.abs(b.depth - depth));
+  for (const checkpoint of closestFirst) {
+    const size = estimateMomentSize(checkpoint.moment, codec);
+    if (checkpoint.depth <= depth && size <= historyLeft) {
+      historyLeft -= size;
+      kept.add(checkpoint);
+    } else if (checkpoint.depth > depth && size <= futureLeft) {
+      futureLeft -= size;
+      kept.add(checkpoint);
+    }
+  }
+
+  return kept.size === state.undoMeta.checkpoints.length
+    ? state
+    : {
+        ...state,
+        undoMeta: {
+          ...state.undoMeta,
+          checkpoints: state.undoMeta.checkpoints.filter(checkpoint =>
+            kept.has(checkpoint)
+          ),
+        },
+      };
+}
+
+type UndoMomentBranchPoint<
+  S,
+  BackupInterface extends StateBackupInterface<S>
+> = UndoBranchPoint<UndoMomentDiff<S, BackupInterface>>;
+
+/**
+ * Splits the future off into a branch at the present moment
+ * @param state Undoable state
+ * @returns The future as a branch (undefined if there is no future), and the branches not part of it
+ */
+function stashFuture<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>
+): {
+  stashed: UndoMomentBranchPoint<S, BackupInterface> | undefined;
+  branches: UndoMomentBranchPoint<S, BackupInterface>[];
+} {
+  const depth = state.history.length;
+  if (state.future.length === 0) {
+    return { stashed: undefined, branches: state.undoMeta.branches };
+  }
+
+  // Branches past the present moment leave from the future, so they move into its branch
+  return {
+    stashed: {
+      depth,
+      branch: {
+        moments: state.future,
+        info: state.undoMeta.futureInfo,
+        branches: state.undoMeta.branches
+          .filter(point => point.depth > depth)
+          .map(point => ({ ...point, depth: point.depth - depth })),
+      },
+    },
+    branches: state.undoMeta.branches.filter(point => point.depth <= depth),
+  };
+}
 
-  // Get history moment from list
-  const diff =
-    distance > 0 ? state.history[distance - 1] : state.future[-distance - 1];
+/**
+ * Makes a branch at the present moment the future
+ * @param state Undoable state
+ * @param index Index of the branch. @see getUndoBranches
+ */
+function changeBranch<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  index: number
+): UndoableState<S, BackupInterface> {
+  const depth = state.history.length;
+  const available = state.undoMeta.branches.filter(
+    point => point.depth === depth
+  );
+  const chosen = available[index];
+  if (!chosen) {
+    throw new UndoBranchError(index, available.length);
+  }
+
+  // The current future takes the chosen branch's place
+  const { stashed, branches } = stashFuture(state);
+  const remaining: UndoMomentBranchPoint<S, BackupInterface>[] = [];
+  for (const point of branches) {
+    if (point !== chosen) {
+      remaining.push(point);
+    } else if (stashed) {
+      remaining.push(stashed);
+    }
+  }
+
+  // And the chosen branch's own branches now leave from the future. Checkpoints in the old future no longer apply
+  return {
+    ...state,
+    future: chosen.branch.moments,
+    undoMeta: {
+      ...state.undoMeta,
+      futureInfo: chosen.branch.info,
+      checkpoints: state.undoMeta.checkpoints.filter(
+        checkpoint => checkpoint.depth <= depth
+      ),
+      branches: [
+        ...remaining,
+        ...chosen.branch.branches.map(point => ({
+          ...point,
+          depth: point.depth + depth,
+        })),
+      ],
+    },
+  };
+}
 
+function restoreMoment<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  undoInterface: BackupInterface,
+  momentOptions: MomentOptions,
+  distance = 1
+): UndoableState<S, BackupInterface> {
   // Error if no moment exists
-  if (diff === undefined) {
-    console.error(
-      `Could not find moment ${distance}. There are only ${state.history.length} moments in history and ${state.future.length} moments in future.`
+  const list = distance > 0 ? state.history : state.future;
+  if (!Number.isInteger(distance) || Math.abs(distance) > list.length) {
+    throw new UndoRangeError(
+      distance,
+      state.history.length,
+      state.future.length
     );
+  }
+
+  // Trivial case: 0
+  if (distance === 0) {
     return state;
   }
 
-  // Start from the present moment
-  let present = state.present;
-  const rewinds = [];
+  // How did this happen?
+  if (state.present === undefined) {
+    warnMisuse("Missing present moment. Can't do anything.");
+    return state;
+  }
 
-  // Start rewinding
-  const abs = Math.abs(distance);
-  for (let i = 0; i < abs; i++) {
-    // Restore using the diff
-    const result = restoreWithRewind(present, list[i]);
-    present = result.restored;
+  // Restore the moment, starting from the closest checkpoint
+  const present = restoreMomentAt(
+    state,
+    distance,
+    momentOptions.codec
+  ) as UndoMoment<S, BackupInterface>;
 
-    // Add the rewind diff to the rewind list
-    rewinds.push(result.diff);
-  }
+  // Reverse every diff we pass to be able to go back
+  const abs = Math.abs(distance);
+  const rewinds = list.slice(0, abs).map(reverseHistory);
 
   // We should now be at the correct moment. Load the state from that moment
   state = loadBackup<S, StateBackupInterface<S>>(
@@ -244,26 +1033,214 @@ function restoreMoment<
     // Slice out all the history moments we consumed
     const history = state.history.slice(abs);
 
-    // Add the rewind diffs to the future array
+    // Add the rewind diffs to the future array, along with their info
     const future = [...rewinds.reverse(), ...state.future];
-    return { ...state, history, future, present };
+    const historyInfo = state.undoMeta.historyInfo.slice(abs);
+    const futureInfo = [
+      ...state.undoMeta.historyInfo.slice(0, abs).reverse(),
+      ...state.undoMeta.futureInfo,
+    ];
+    return limitMoments(
+      {
+        ...state,
+        history,
+        future,
+        present,
+        undoMeta: { ...state.undoMeta, historyInfo, futureInfo },
+      },
+      momentOptions
+    );
   } else {
     // Slice out all the future moments we consumed
     const future = state.future.slice(abs);
 
-    // Add rewinds to history
+    // Add rewinds to history, along with their info
     const history = [...rewinds.reverse(), ...state.history];
-    return { ...state, history, future, present };
+    const futureInfo = state.undoMeta.futureInfo.slice(abs);
+    const historyInfo = [
+      ...state.undoMeta.futureInfo.slice(0, abs).reverse(),
+      ...state.undoMeta.historyInfo,
+    ];
+    return limitMoments(
+      {
+        ...state,
+        history,
+        future,
+        present,
+        undoMeta: { ...state.undoMeta, historyInfo, futureInfo },
+      },
+      momentOptions
+    );
   }
 }
 
+/**
+ * Restores a moment in the history or future, starting from the closest checkpoint (or the present moment)
+ * @param state Undoable state
+ * @param distance Distance from the present moment. Positive values are in the history, negative values in the future
+ * @param codec Codec the undoable reducer uses
+ */
+function restoreMomentAt<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  distance: number,
+  codec: BackupCodec | undefined
+): UndoMoment<S, BackupInterface> | undefined {
+  const list = distance > 0 ? state.history : state.future;
+  const abs = Math.abs(distance);
+
+  // Find the checkpoint closest to the moment between it and the present moment
+  let moment = state.present;
+  let start = 0;
+  for (const checkpoint of state.undoMeta.checkpoints) {
+    const checkpointDistance = state.history.length - checkpoint.depth;
+    const steps = Math.sign(distance) * checkpointDistance;
+    if (checkpointDistance !== 0 && steps > start && steps <= abs) {
+      moment = checkpoint.moment;
+      start = steps;
+    }
+  }
+
+  // Apply the diffs from there
+  for (let i = start; i < abs && moment !== undefined; i++) {
+    moment = restore(moment, list[i], codec);
+  }
+  return moment;
+}
+
+/**
+ * Gets a history moment without undoing to it. Uses checkpoints, so it doesn't have to apply every diff before the moment. @see UndoableReducerOptions.checkpoints
+ * Throws @see UndoRangeError if the moment doesn't exist
+ * @param state Undoable state
+ * @param index Index in the history. Index 0 is the most recent history moment
+ * @param codec Codec the undoable reducer uses. @see UndoableReducerOptions.codec
+ */
+export function getMomentAt<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  index: number,
+  codec?: BackupCodec
+): UndoMoment<S, BackupInterface> | undefined {
+  if (!Number.isInteger(index) || index < 0 || index >= state.history.length) {
+    throw new UndoRangeError(
+      index + 1,
+      state.history.length,
+      state.future.length
+    );
+  }
+  return restoreMomentAt(state, index + 1, codec);
+}
+
+/**
+ * Information about a branch at the present moment
+ */
+export interface UndoBranchInfo {
+  /** Index to pass to @see switchBranch */
+  index: number;
+
+  /** Number of moments in the branch */
+  length: number;
+
+  /** Number of other branches leaving moments in the branch */
+  branchCount: number;
+}
+
+/**
+ * Lists the abandoned branches leaving the present moment. The current future is not included
+ * @param state Undoable state
+ */
+export function getUndoBranches<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(state: UndoableState<S, BackupInterface>): UndoBranchInfo[] {
+  return state.undoMeta.branches
+    .filter(point => point.depth === state.history.length)
+    .map((point, index) => ({
+      index,
+      length: point.branch.moments.length,
+      branchCount: point.branch.branches.length,
+    }));
+}
+
+/**
+ * Allows you to iterate the moments of an abandoned branch at the present moment with a for loop (unpacking diffs as you go)
+ * @param state Undoable state
+ * @param index Index of the branch. @see getUndoBranches
+ * @param codec Codec the undoable reducer uses. @see UndoableReducerOptions.codec
+ */
+export function iterateUndoBranch<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  state: UndoableState<S, BackupInterface>,
+  index: number,
+  codec?: BackupCodec
+) {
+  const available = state.undoMeta.branches.filter(
+    point => point.depth === state.history.length
+  );
+  if (!available[index]) {
+    throw new UndoBranchError(index, available.length);
+  }
+  return historyIterator(state.present, available[index].branch.moments, codec);
+}
+
 /**
  * Allows you to iterate the state history with a for loop (unpacking diffs as you go)
  * @param state Undoable state
+ * @param codec Codec the undoable reducer uses. @see UndoableReducerOptions.codec
  */
 export function iterateUndoHistory<
   S extends StateOrSlice,
   BackupInterface extends StateBackupInterface<S>
->(state: UndoableState<S, BackupInterface>) {
-  return historyIterator(state.present, state.history);
+>(state: UndoableState<S, BackupInterface>, codec?: BackupCodec) {
+  return historyIterator(state.present, state.history, codec);
+}
+
+/**
+ * Gets information about the action the next undo will undo, or undefined if there is nothing to undo or it's unknown
+ * @param state Undoable state
+ */
+export function getUndoInfo<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(state: UndoableState<S, BackupInterface>): UndoMomentInfo | undefined {
+  return state.undoMeta.historyInfo[0];
+}
+
+/**
+ * Gets information about the action the next redo will redo, or undefined if there is nothing to redo or it's unknown
+ * @param state Undoable state
+ */
+export function getRedoInfo<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(state: UndoableState<S, BackupInterface>): UndoMomentInfo | undefined {
+  return state.undoMeta.futureInfo[0];
+}
+
+/**
+ * Gets the label of the action the next undo will undo (for example, to show "Undo Rename layer")
+ * @param state Undoable state
+ */
+export function getUndoLabel<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(state: UndoableState<S, BackupInterface>): string | undefined {
+  return getUndoInfo(state)?.label;
+}
+
+/**
+ * Gets the label of the action the next redo will redo
+ * @param state Undoable state
+ */
+export function getRedoLabel<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(state: UndoableState<S, BackupInterface>): string | undefined {
+  return getRedoInfo(state)?.label;
 }
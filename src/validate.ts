@@ -0,0 +1,127 @@
+import { SliceBackupInterface } from './backup';
+
+/**
+ * Checks that an unknown value has some type. Used to validate stored data before it reaches a load function.
+ * @see SliceBackupInterface.validate
+ */
+export type Validator<T> = (value: unknown) => value is T;
+
+/**
+ * Type checked by a validator
+ */
+export type ValidatedType<V> = V extends Validator<infer T> ? T : never;
+
+// Keys of an object shape whose validators accept undefined
+type OptionalKeys<Shape> = {
+  [K in keyof Shape]: undefined extends ValidatedType<Shape[K]> ? K : never;
+}[keyof Shape];
+
+/**
+ * Type checked by @see isObjectOf. Fields whose validators accept undefined are optional
+ */
+export type ObjectOf<Shape extends Record<string, Validator<unknown>>> = {
+  [K in Exclude<keyof Shape, OptionalKeys<Shape>>]: ValidatedType<Shape[K]>;
+} &
+  {
+    [K in OptionalKeys<Shape>]?: ValidatedType<Shape[K]>;
+  };
+
+/** Validates strings */
+export const isString: Validator<string> = (value): value is string =>
+  typeof value === 'string';
+
+/** Validates numbers */
+export const isNumber: Validator<number> = (value): value is number =>
+  typeof value === 'number';
+
+/** Validates booleans */
+export const isBoolean: Validator<boolean> = (value): value is boolean =>
+  typeof value === 'boolean';
+
+/** Validates null */
+export const isNull: Validator<null> = (value): value is null => value === null;
+
+/**
+ * Creates a validator for one of a few literal values
+ * @param values Allowed values
+ */
+export function isLiteral<T extends string | number | boolean>(
+  ...values: T[]
+): Validator<T> {
+  return (value): value is T => values.includes(value as T);
+}
+
+/**
+ * Creates a validator for values that may be undefined
+ * @param validator Validator for the value when it's defined
+ */
+export function isOptional<T>(
+  validator: Validator<T>
+): Validator<T | undefined> {
+  return (value): value is T | undefined =>
+    value === undefined || validator(value);
+}
+
+/**
+ * Creates a validator for values passing any of a list of validators
+ * @param validators Validators to try
+ */
+export function isOneOf<T>(...validators: Validator<T>[]): Validator<T> {
+  return (value): value is T => validators.some(validator => validator(value));
+}
+
+/**
+ * Creates a validator for arrays
+ * @param item Validator for every item
+ */
+export function isArrayOf<T>(item: Validator<T>): Validator<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(item);
+}
+
+/**
+ * Creates a validator for objects used as records, with any keys
+ * @param item Validator for every value
+ */
+export function isRecordOf<T>(
+  item: Validator<T>
+): Validator<Record<string, T>> {
+  return (value): value is Record<string, T> =>
+    isPlainObject(value) && Object.values(value).every(item);
+}
+
+/**
+ * Creates a validator for objects with some fields. Fields not in the shape are allowed
+ * @param shape Validator for each field
+ */
+export function isObjectOf<Shape extends Record<string, Validator<unknown>>>(
+  shape: Shape
+): Validator<ObjectOf<Shape>> {
+  return (value): value is ObjectOf<Shape> =>
+    isPlainObject(value) &&
+    Object.keys(shape).every(key => shape[key](value[key]));
+}
+
+/**
+ * Adds a validator to a slice backup interface, as in `validated(isStoredPerson)({ save, load })`.
+ * The stored type is inferred from the validator before save and load are checked, so they are typed by it
+ * @param validator Validator for the stored data
+ * @returns Function adding the validator to a slice backup interface
+ */
+export function validated<Stored>(
+  validator: Validator<Stored>
+): <S, Parent = unknown, Grandparent = unknown>(
+  backupInterface: Omit<
+    SliceBackupInterface<S, Stored, Parent, Grandparent>,
+    'validate'
+  >
+) => SliceBackupInterface<S, Stored, Parent, Grandparent> {
+  return backupInterface => ({ ...backupInterface, validate: validator });
+}
+
+/**
+ * Checks if a value is an object that isn't an array or null
+ * @param value Value to check
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,278 @@
+import {
+  SliceBackupInterface,
+  StateBackupInterface,
+  StateOrSlice,
+  StoredState,
+} from './backup';
+import { BackupVersionError } from './errors';
+
+/**
+ * Upgrades stored data from one schema version to the next
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type BackupMigration<From = any, To = any> = (stored: From) => To;
+
+/**
+ * A typed chain of migrations. Each step upgrades the output of the previous one. @see createMigrationChain
+ */
+export interface MigrationChain<Current> {
+  /**
+   * Adds a migration from the current stored shape to the next version
+   * @param migration Migration function
+   */
+  then<Next>(migration: BackupMigration<Current, Next>): MigrationChain<Next>;
+
+  /** Migrations in order. migrations[n] upgrades version n to version n + 1 */
+  readonly migrations: BackupMigration[];
+}
+
+/**
+ * A list of migrations (migrations[n] upgrades version n to n + 1) or a typed migration chain ending in the Stored type
+ */
+export type BackupMigrations<Stored> =
+  | BackupMigration[]
+  | MigrationChain<Stored>;
+
+/**
+ * Versioning options for a whole backup
+ */
+export interface BackupVersionOptions<Stored = unknown> {
+  /** Current schema version of the backup. Defaults to the number of migrations */
+  version?: number;
+
+  /** Migrations run over the whole backup before any slice migrations */
+  migrations?: BackupMigrations<Stored>;
+}
+
+/**
+ * Versions recorded for each versioned slice in a backup
+ */
+export type SliceVersions = { [key: string]: number | SliceVersions };
+
+/**
+ * A backup stamped with the schema versions it was created with. @see createBackup
+ */
+export interface VersionedBackup<Stored> {
+  /** Marks versioned backups, so stored data with the same keys isn't mistaken for one */
+  $versioned: 1;
+
+  /** Global schema version */
+  backupVersion: number;
+
+  /** Schema versions of each versioned slice */
+  sliceVersions: SliceVersions;
+
+  /** Backup data */
+  data: Stored;
+}
+
+/**
+ * Starts a typed migration chain for stored data originally of type Initial (version 0)
+ */
+export function createMigrationChain<Initial>(): MigrationChain<Initial> {
+  const chain = (migrations: BackupMigration[]) => ({
+    migrations,
+    then: (migration: BackupMigration) => chain([...migrations, migration]),
+  });
+  return chain([]);
+}
+
+/**
+ * Gets migrations as a list
+ * @param migrations Migration list or chain
+ */
+function getMigrationList(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  migrations: BackupMigrations<any> | undefined
+): BackupMigration[] {
+  if (migrations === undefined) {
+    return [];
+  }
+  return Array.isArray(migrations) ? migrations : migrations.migrations;
+}
+
+/**
+ * Gets the current schema version of a versioned object (a slice backup interface or backup options)
+ * @param versioned Object with optional version and migrations
+ */
+export function getCurrentVersion(versioned: {
+  version?: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  migrations?: BackupMigrations<any>;
+}): number {
+  return versioned.version ?? getMigrationList(versioned.migrations).length;
+}
+
+/**
+ * Checks if a stored object is a versioned backup envelope
+ * @param stored Stored backup
+ */
+export function isVersionedBackup<Stored>(
+  stored: Stored | VersionedBackup<Stored>
+): stored is VersionedBackup<Stored> {
+  return (
+    typeof stored === 'object' &&
+    stored !== null &&
+    (stored as VersionedBackup<Stored>).$versioned === 1 &&
+    typeof (stored as VersionedBackup<Stored>).backupVersion === 'number' &&
+    'sliceVersions' in stored &&
+    'data' in stored
+  );
+}
+
+/**
+ * Collects the current version of each versioned slice in a backup interface
+ * @param backupInterface Backup interface
+ */
+export function getSliceVersions<S extends StateOrSlice>(
+  backupInterface: StateBackupInterface<S>
+): SliceVersions {
+  const versions: SliceVersions = {};
+
+  for (const key in backupInterface) {
+    const loader = backupInterface[key];
+    if (!loader) {
+      continue;
+    }
+
+    if ('save' in loader && typeof loader.save === 'function') {
+      // Only record slices that have ever been versioned
+      const version = getCurrentVersion(
+        loader as SliceBackupInterface<unknown, unknown>
+      );
+      if (version > 0) {
+        versions[key] = version;
+      }
+    } else {
+      // Recurse into nested state interfaces, skipping those without any versions
+      const nested = getSliceVersions(
+        loader as StateBackupInterface<StateOrSlice>
+      );
+      if (Object.keys(nested).length > 0) {
+        versions[key] = nested;
+      }
+    }
+  }
+
+  return versions;
+}
+
+/**
+ * Runs migrations on some data to bring it from one version to another
+ * @param data Data to migrate
+ * @param from Version the data was stored at
+ * @param to Current version
+ * @param migrations Migration list
+ * @param path Key path of the data (for errors)
+ */
+function runMigrations(
+  data: unknown,
+  from: number,
+  to: number,
+  migrations: BackupMigration[],
+  path: string[]
+): unknown {
+  // We can't load data from the future
+  if (from > to) {
+    throw new BackupVersionError(path, from, to);
+  }
+
+  // Missing migrations are version bumps that didn't change the stored shape
+  for (let version = from; version < to; version++) {
+    const migration = migrations[version];
+    if (migration) {
+      data = migration(data);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Runs slice migrations recursively through a backup
+ * @param stored Stored data
+ * @param backupInterface Backup interface
+ * @param versions Versions the slices were stored at
+ * @param path Key path of this stored data
+ */
+function migrateSlices<S extends StateOrSlice>(
+  stored: Record<string, unknown> | undefined,
+  backupInterface: StateBackupInterface<S>,
+  versions: SliceVersions,
+  path: string[]
+): Record<string, unknown> | undefined {
+  if (typeof stored !== 'object' || stored === null) {
+    return stored;
+  }
+
+  const migrated = { ...stored };
+  for (const key in backupInterface) {
+    const loader = backupInterface[key];
+
+    // Nothing stored means nothing to upgrade
+    if (!loader || stored[key] === undefined) {
+      continue;
+    }
+
+    const version = versions[key];
+    if ('load' in loader && typeof loader.load === 'function') {
+      const slice = loader as SliceBackupInterface<unknown, unknown>;
+      migrated[key] = runMigrations(
+        stored[key],
+        typeof version === 'number' ? version : 0,
+        getCurrentVersion(slice),
+        getMigrationList(slice.migrations),
+        [...path, key]
+      );
+    } else {
+      migrated[key] = migrateSlices(
+        stored[key] as Record<string, unknown>,
+        loader as StateBackupInterface<StateOrSlice>,
+        typeof version === 'object' ? version : {},
+        [...path, key]
+      );
+    }
+  }
+
+  return migrated;
+}
+
+/**
+ * Upgrades a backup to the current schema versions. Runs global migrations first, then slice migrations.
+ * Bare (unversioned) backups are treated as version 0 everywhere.
+ * Throws @see BackupVersionError if any part of the backup is newer than the code.
+ * @param store Backup to migrate
+ * @param backupInterface Backup interface the backup will be loaded with
+ * @param options Global versioning options. Without them, the global version isn't checked and only slice migrations run
+ */
+export function migrateBackup<
+  S extends StateOrSlice,
+  BackupInterface extends StateBackupInterface<S>
+>(
+  store:
+    | StoredState<S, BackupInterface>
+    | VersionedBackup<StoredState<S, BackupInterface>>,
+  backupInterface: BackupInterface,
+  options?: BackupVersionOptions<StoredState<S, BackupInterface>>
+): StoredState<S, BackupInterface> {
+  const versioned = isVersionedBackup(store)
+    ? store
+    : { $versioned: 1, backupVersion: 0, sliceVersions: {}, data: store };
+
+  // Run global migrations, if the loader knows about global versions
+  const data = runMigrations(
+    versioned.data,
+    versioned.backupVersion,
+    options ? getCurrentVersion(options) : versioned.backupVersion,
+    getMigrationList(options?.migrations),
+    []
+  ) as Record<string, unknown>;
+
+  // Then run migrations on each slice
+  return migrateSlices(
+    data,
+    backupInterface,
+    versioned.sliceVersions,
+    []
+  ) as StoredState<S, BackupInterface>;
+}
@@ -1,5 +1,13 @@
-import { createBackup, DependencyLoader, loadBackup } from '../src/backup';
+import {
+  AsyncDependencyLoader,
+  createBackup,
+  DependencyLoader,
+  loadBackup,
+  loadBackupAsync,
+  loadBackupWithReport,
+} from '../src/backup';
 import { CopySliceBackupInterface } from '../src/def';
+import { BackupDependencyError, SliceLoadError } from '../src/errors';
 
 describe('A Simple State', () => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -196,3 +204,313 @@ describe('A state whose slices need to rebuild from a shared slice', () => {
     });
   });
 });
+
+describe('A state with async loaders', () => {
+  interface State {
+    a: string;
+    b: string;
+    nested: { c: string };
+    shared: { loaded: number };
+    [i: string]: any;
+  }
+
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // Counts loaders running at the same time
+  let running = 0;
+  let maxRunning = 0;
+  const slowStringBackup = {
+    save: (state: string) => state,
+    load: async (data: string, deps: AsyncDependencyLoader<State>) => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(10);
+      const { loaded } = await deps.needs('shared');
+      await deps.update('shared', { loaded: loaded + 1 });
+      running -= 1;
+      return data;
+    },
+  };
+
+  const backupInterface = {
+    a: slowStringBackup,
+    b: slowStringBackup,
+    nested: { c: { save: (c: string) => c, load: async (c: string) => c } },
+    shared: CopySliceBackupInterface,
+  };
+
+  const state: State = {
+    a: 'a',
+    b: 'b',
+    nested: { c: 'c' },
+    shared: { loaded: 0 },
+  };
+
+  test('Basic save and restore', async () => {
+    const backup = createBackup(state, backupInterface);
+    const newState = await loadBackupAsync({}, backupInterface, backup);
+    expect(newState.a).toBe('a');
+    expect(newState.b).toBe('b');
+    expect(newState.nested).toEqual({ c: 'c' });
+    expect(newState.shared?.loaded).toBeGreaterThan(0);
+  });
+
+  test('Independent slices load concurrently', async () => {
+    maxRunning = 0;
+    await loadBackupAsync(
+      {},
+      backupInterface,
+      createBackup(state, backupInterface)
+    );
+    expect(maxRunning).toBe(2);
+  });
+
+  test('Circular dependencies are rejected', async () => {
+    const circularInterface = {
+      a: {
+        save: (a: string) => a,
+        load: async (a: string, deps: AsyncDependencyLoader<State>) => {
+          await deps.needs('b');
+          return a;
+        },
+      },
+      b: {
+        save: (b: string) => b,
+        load: async (b: string, deps: AsyncDependencyLoader<State>) => {
+          await delay(1);
+          await deps.needs('a');
+          return b;
+        },
+      },
+    };
+    await expect(
+      loadBackupAsync({}, circularInterface, { a: 'a', b: 'b' })
+    ).rejects.toThrow('Circular dependency in loadBackupAsync: b,a,b.');
+  });
+});
+
+describe('A state with slices that fail to load', () => {
+  interface State {
+    good: string;
+    bad: number;
+    dependent: number;
+    nested: { bad: number };
+    [i: string]: any;
+  }
+
+  const badBackupInterface = {
+    save: (bad: number) => bad,
+    load: (stored: number): number => {
+      throw new Error(`Can't load ${stored}`);
+    },
+    fallback: -1,
+  };
+
+  const backupInterface = {
+    good: CopySliceBackupInterface,
+    bad: badBackupInterface,
+    dependent: {
+      save: (dependent: number) => dependent,
+      load: (stored: number, deps: DependencyLoader<State>) =>
+        stored + deps.needs('bad'),
+    },
+    nested: { bad: { ...badBackupInterface, fallback: undefined } },
+  };
+
+  const state: State = {
+    good: 'good',
+    bad: 1,
+    dependent: 10,
+    nested: { bad: 2 },
+  };
+  const backup = createBackup(state, backupInterface);
+  const existing: Partial<State> = { bad: 5, nested: { bad: 6 } };
+
+  test('Failing slices fail the whole load by default', () => {
+    expect.assertions(4);
+    expect(() => loadBackup(existing, backupInterface, backup)).toThrow(
+      SliceLoadError
+    );
+
+    try {
+      loadBackup(existing, backupInterface, backup);
+    } catch (error) {
+      expect(error.path).toEqual(['bad']);
+      expect(error.stored).toBe(1);
+      expect(error.cause.message).toBe("Can't load 1");
+    }
+  });
+
+  test('Failing slices can be skipped', () => {
+    const report = loadBackupWithReport(existing, backupInterface, backup, {
+      onError: 'skip',
+    });
+    expect(report.state).toEqual({
+      good: 'good',
+      bad: 5,
+      dependent: 15,
+      nested: { bad: 6 },
+    });
+    expect(report.errors.map(error => error.path)).toEqual([
+      ['bad'],
+      ['nested', 'bad'],
+    ]);
+    expect(report.loaded).toEqual([['good'], ['dependent']]);
+  });
+
+  test('Failing slices can fall back to a default', () => {
+    const report = loadBackupWithReport(existing, backupInterface, backup, {
+      onError: 'fallback',
+    });
+
+    // Slices without a fallback are skipped
+    expect(report.state).toEqual({
+      good: 'good',
+      bad: -1,
+      dependent: 9,
+      nested: { bad: 6 },
+    });
+    expect(report.errors).toHaveLength(2);
+  });
+});
+
+describe('A state with nested slices that need other scopes', () => {
+  interface Settings {
+    scale: number;
+  }
+  interface Editor {
+    layers: number[];
+    selected: number;
+    [i: string]: any;
+  }
+  interface State {
+    settings: Settings;
+    editor: Editor;
+    summary: number;
+    [i: string]: any;
+  }
+
+  const editorBackupInterface = {
+    layers: {
+      save: (layers: number[]) => layers,
+      load: (layers: number[], deps: DependencyLoader<Editor, State>) =>
+        layers.map(layer => layer * deps.parent!.needs('settings').scale),
+    },
+    selected: {
+      save: (selected: number) => selected,
+      load: (selected: number, deps: DependencyLoader<Editor, State>) =>
+        deps.needs('layers')[selected],
+    },
+  };
+
+  const backupInterface = {
+    settings: CopySliceBackupInterface,
+    editor: editorBackupInterface,
+    summary: {
+      save: () => 0,
+      load: (_: number, deps: DependencyLoader<State>) =>
+        deps.needs<number[]>(['editor', 'layers']).length,
+    },
+  };
+
+  const state: State = {
+    settings: { scale: 2 },
+    editor: { layers: [1, 2, 3], selected: 1 },
+    summary: 0,
+  };
+  const backup = createBackup(state, backupInterface);
+
+  test('Nested slices can need slices of their parent', () => {
+    expect(loadBackup({}, backupInterface, backup)).toEqual({
+      settings: { scale: 2 },
+      editor: { layers: [2, 4, 6], selected: 4 },
+      summary: 3,
+    });
+  });
+
+  test('Circular dependencies across scopes are detected', () => {
+    const circularInterface = {
+      ...backupInterface,
+      settings: {
+        save: (settings: Settings) => settings,
+        load: (settings: Settings, deps: DependencyLoader<State>) => {
+          deps.needs(['editor', 'selected']);
+          return settings;
+        },
+      },
+    };
+
+    expect.assertions(3);
+    try {
+      loadBackupWithReport({}, circularInterface, backup, { onError: 'skip' });
+    } catch (error) {
+      expect(error).toBeInstanceOf(BackupDependencyError);
+      expect(error.message).toBe(
+        'Circular dependency in loadBackup: settings,editor.selected,editor.layers,settings.'
+      );
+      expect(error.paths[0]).toEqual(['settings']);
+    }
+  });
+
+  test('Missing scopes can not be needed', () => {
+    const missingInterface = {
+      ...backupInterface,
+      summary: {
+        save: () => 0,
+        load: (_: number, deps: DependencyLoader<State>) =>
+          deps.needs<number>(['settings', 'scale']),
+      },
+    };
+    expect(() => loadBackup({}, missingInterface, backup)).toThrow(
+      'There is no nested state interface at settings.'
+    );
+  });
+
+  test('Async nested slices can need slices of their parent', async () => {
+    const asyncInterface = {
+      settings: CopySliceBackupInterface,
+      editor: {
+        layers: {
+          save: (layers: number[]) => layers,
+          load: async (
+            layers: number[],
+            deps: AsyncDependencyLoader<Editor, State>
+          ) => {
+            const { scale } = await deps.parent!.needs('settings');
+            return layers.map(layer => layer * scale);
+          },
+        },
+      },
+      summary: {
+        save: () => 0,
+        load: async (_: number, deps: AsyncDependencyLoader<State>) =>
+          (await deps.needs<number[]>(['editor', 'layers'])).length,
+      },
+    };
+    expect(await loadBackupAsync({}, asyncInterface, backup)).toEqual({
+      settings: { scale: 2 },
+      editor: { layers: [2, 4, 6] },
+      summary: 3,
+    });
+  });
+
+  test('Async nested slices can not need their own parent', async () => {
+    const asyncInterface = {
+      editor: {
+        layers: {
+          save: (layers: number[]) => layers,
+          load: async (
+            layers: number[],
+            deps: AsyncDependencyLoader<Editor, State>
+          ) => {
+            await deps.parent!.needs('editor');
+            return layers;
+          },
+        },
+      },
+    };
+    await expect(loadBackupAsync({}, asyncInterface, backup)).rejects.toThrow(
+      'Circular dependency in loadBackupAsync: editor.layers,editor,editor.layers.'
+    );
+  });
+});
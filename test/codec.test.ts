@@ -0,0 +1,96 @@
+import { AnyAction } from '@reduxjs/toolkit';
+import {
+  decodeFromString,
+  encodeToString,
+  jsonCodec,
+  richJsonCodec,
+} from '../src/codec';
+import { CopySliceBackupInterface } from '../src/def';
+import { loadFromStorage, saveToStorage } from '../src/storage';
+import { createUndoableReducer, undo } from '../src/undo';
+
+const rich = {
+  date: new Date(1234),
+  map: new Map<unknown, unknown>([
+    ['a', 1],
+    [2, new Set(['b'])],
+  ]),
+  set: new Set([1, 2, 3]),
+  big: BigInt('12345678901234567890'),
+  bytes: new Uint8Array([1, 2, 3]),
+  floats: new Float64Array([0.5, -1]),
+  nothing: undefined,
+  numbers: [NaN, Infinity, -Infinity],
+  nested: { list: [new Date(5678)] },
+  tagged: { $type: 'Date', value: 'not a date' },
+};
+
+test('The rich JSON codec round trips rich types', () => {
+  const decoded = decodeFromString(
+    encodeToString(rich, richJsonCodec),
+    richJsonCodec
+  );
+  expect(decoded).toEqual(rich);
+  expect('nothing' in (decoded as typeof rich)).toBe(true);
+});
+
+test('The JSON codec stores plain JSON', () => {
+  expect(encodeToString({ a: [1, 'b'] }, jsonCodec)).toBe('{"a":[1,"b"]}');
+  expect(encodeToString({ a: new Set([1]) })).toBe('{"a":{}}');
+});
+
+test('Storage can save and load rich types with a codec', () => {
+  const backupInterface = { rich: CopySliceBackupInterface };
+  saveToStorage(localStorage, 'codec', { rich }, backupInterface, {
+    codec: richJsonCodec,
+  });
+  const loaded = loadFromStorage({}, localStorage, 'codec', backupInterface, {
+    codec: richJsonCodec,
+  });
+  expect(loaded).toEqual({ rich });
+});
+
+describe('Undoing rich types', () => {
+  type State = { tags: Set<string>; seen: Map<string, Date> };
+
+  // Slices are saved as they are, so the codec has to handle the rich types
+  const backupInterface = {
+    tags: CopySliceBackupInterface,
+    seen: CopySliceBackupInterface,
+  };
+
+  const reducer = (
+    state: State = { tags: new Set(), seen: new Map() },
+    action: AnyAction
+  ): State =>
+    action.type === 'tags/undoable/add'
+      ? {
+          tags: new Set([...state.tags, action.payload]),
+          seen: new Map([...state.seen, [action.payload, new Date(1000)]]),
+        }
+      : state;
+
+  test('Sets, maps, and dates are restored exactly', () => {
+    const undoReducer = createUndoableReducer(reducer, backupInterface, {
+      codec: richJsonCodec,
+    });
+
+    let state = undoReducer(undefined, { type: 'init' });
+    state = undoReducer(state, { type: 'tags/undoable/add', payload: 'a' });
+    state = undoReducer(state, { type: 'tags/undoable/add', payload: 'b' });
+    expect(state.history).toHaveLength(2);
+
+    state = undoReducer(state, undo());
+    expect(state.tags).toEqual(new Set(['a']));
+    expect(state.seen).toEqual(new Map([['a', new Date(1000)]]));
+    expect(state.seen.get('a')).toBeInstanceOf(Date);
+  });
+
+  test('Without a codec, changes to rich types are not seen', () => {
+    const undoReducer = createUndoableReducer(reducer, backupInterface);
+
+    let state = undoReducer(undefined, { type: 'init' });
+    state = undoReducer(state, { type: 'tags/undoable/add', payload: 'a' });
+    expect(state.history).toEqual([undefined]);
+  });
+});
@@ -0,0 +1,131 @@
+import { createBackup, loadBackup } from '../src/backup';
+import {
+  arrayOf,
+  compose,
+  mapRecord,
+  omit,
+  optional,
+  pick,
+  transform,
+  withDefaults,
+} from '../src/combinators';
+
+interface Person {
+  name: string;
+  tags: Set<string>;
+}
+
+interface State {
+  settings: { theme: string; zoom: number; cache: string[] };
+  people: Person[];
+  groups: Record<string, Person>;
+  selected: Person | null;
+  draft: { title: string; body: string };
+  [i: string]: any;
+}
+
+const state: State = {
+  settings: { theme: 'dark', zoom: 2, cache: ['a', 'b'] },
+  people: [{ name: 'Ada', tags: new Set(['admin']) }],
+  groups: { owners: { name: 'Bob', tags: new Set() } },
+  selected: null,
+  draft: { title: 'Hello', body: 'World' },
+};
+
+const initialSettings: State['settings'] = {
+  theme: 'light',
+  zoom: 1,
+  cache: [],
+};
+
+const person = transform(
+  (p: Person) => ({ name: p.name, tags: [...p.tags] }),
+  stored => ({ name: stored.name, tags: new Set(stored.tags) })
+);
+
+const backupInterface = {
+  settings: omit(initialSettings, 'cache'),
+  people: arrayOf(person),
+  groups: mapRecord(person),
+  selected: optional(person),
+  draft: pick({ title: '', body: '' }, 'title'),
+};
+
+test('Stored types are inferred', () => {
+  const backup = createBackup(state, backupInterface);
+
+  // Type checks: these assignments fail to compile if the stored types are wrong
+  const settings: { theme: string; zoom: number } | undefined = backup.settings;
+  const people: { name: string; tags: string[] }[] | undefined = backup.people;
+  const groups: Record<string, { name: string; tags: string[] }> | undefined =
+    backup.groups;
+  const selected: { name: string; tags: string[] } | null | undefined =
+    backup.selected;
+  const draft: { title: string } | undefined = backup.draft;
+
+  expect({ settings, people, groups, selected, draft }).toEqual({
+    settings: { theme: 'dark', zoom: 2 },
+    people: [{ name: 'Ada', tags: ['admin'] }],
+    groups: { owners: { name: 'Bob', tags: [] } },
+    selected: null,
+    draft: { title: 'Hello' },
+  });
+});
+
+test('Combinators load what they save', () => {
+  const backup = JSON.parse(
+    JSON.stringify(createBackup(state, backupInterface))
+  );
+  expect(loadBackup({}, backupInterface, backup)).toEqual({
+    ...state,
+    settings: { ...state.settings, cache: [] },
+    draft: { title: 'Hello', body: '' },
+  });
+});
+
+test('Optional slices store values with the inner interface', () => {
+  const selected = optional(person);
+  const ada = state.people[0];
+  expect(selected.save(ada)).toEqual({ name: 'Ada', tags: ['admin'] });
+  expect(selected.load(selected.save(ada), undefined as never)).toEqual(ada);
+  expect(selected.save(undefined)).toBeUndefined();
+  expect(selected.load(undefined, undefined as never)).toBeUndefined();
+});
+
+test('Defaults fill in missing fields', () => {
+  const settings = withDefaults(initialSettings);
+  expect(settings.load({ theme: 'dark' }, undefined as never)).toEqual({
+    theme: 'dark',
+    zoom: 1,
+    cache: [],
+  });
+  expect(settings.load(undefined, undefined as never)).toBe(initialSettings);
+
+  // Defaults also apply on top of other interfaces
+  const picked = withDefaults(initialSettings, pick(initialSettings, 'zoom'));
+  expect(picked.load({ zoom: 3 }, undefined as never)).toEqual({
+    ...initialSettings,
+    zoom: 3,
+  });
+});
+
+test('Undefined items are left out', () => {
+  const even = transform(
+    (n: number) => (n % 2 === 0 ? n : undefined),
+    (n: number | undefined) => n as number
+  );
+  expect(arrayOf(even).save([1, 2, 3, 4])).toEqual([2, 4]);
+  expect(mapRecord(even).save({ a: 1, b: 2 })).toEqual({ b: 2 });
+});
+
+test('Composed interfaces save in order and load in reverse', () => {
+  const toJson = transform(
+    (value: unknown) => JSON.stringify(value),
+    (json: string) => JSON.parse(json)
+  );
+  const people = compose(arrayOf(person), toJson);
+
+  const stored: string | undefined = people.save(state.people);
+  expect(stored).toBe('[{"name":"Ada","tags":["admin"]}]');
+  expect(people.load(stored, undefined as never)).toEqual(state.people);
+});
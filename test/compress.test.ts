@@ -0,0 +1,137 @@
+import { createMemoryAdapter, createStorageAdapter } from '../src/adapters';
+import {
+  compressToBytes,
+  compressToUTF16,
+  decompressBackup,
+  decompressFromBytes,
+  decompressFromUTF16,
+  isCompressed,
+} from '../src/compress';
+import { CopySliceBackupInterface } from '../src/def';
+import { BackupCompressionError, BackupError } from '../src/errors';
+import {
+  loadFromStorage,
+  loadFromStorageAsync,
+  saveToStorage,
+  saveToStorageAsync,
+} from '../src/storage';
+
+// A large, repetitive backup like a real save
+const rows = Array.from({ length: 500 }, (_, i) => ({
+  id: i,
+  name: `Item ${i}`,
+  tags: ['red', 'green', 'blue'],
+  done: i % 3 === 0,
+}));
+const json = JSON.stringify({ rows });
+
+describe.each([
+  ['UTF-16', compressToUTF16, decompressFromUTF16],
+  ['binary', compressToBytes, decompressFromBytes],
+])(
+  '%s compression',
+  (
+    _name,
+    compress: (text: string) => string | Uint8Array,
+    decompress: (data: any) => string
+  ) => {
+    test.each([
+      ['empty text', ''],
+      ['a single character', 'a'],
+      ['repeated text', 'abababababababababab'],
+      ['non-latin text', 'héllo wörld ✓ 你好 🎉 \u0000￿'],
+      ['a large backup', json],
+    ])('Round trips %s', (_case, text: string) => {
+      const compressed = compress(text);
+      expect(isCompressed(compressed)).toBe(true);
+      expect(decompress(compressed)).toBe(text);
+    });
+
+    test('Makes large backups smaller', () => {
+      // UTF-16 strings take two bytes per character
+      const compressed = compress(json);
+      const size =
+        typeof compressed === 'string'
+          ? compressed.length * 2
+          : compressed.length;
+      expect(size).toBeLessThan(json.length / 4);
+    });
+
+    test('Throws on truncated data', () => {
+      const compressed = compress(json);
+      expect(() => decompress(compressed.slice(0, 100))).toThrow(
+        BackupCompressionError
+      );
+    });
+  }
+);
+
+test('UTF-16 compression creates valid UTF-16 strings', () => {
+  const compressed = compressToUTF16(json);
+  for (let i = 0; i < compressed.length; i++) {
+    const code = compressed.charCodeAt(i);
+    expect(code < 0xd800 || code > 0xdfff).toBe(true);
+  }
+});
+
+test('Uncompressed backups are detected', () => {
+  expect(isCompressed(json)).toBe(false);
+  expect(decompressBackup(json)).toBe(json);
+});
+
+describe('Compressed storage', () => {
+  const state = { rows, other: 'not saved' };
+  const backupInterface = { rows: CopySliceBackupInterface };
+
+  test('Compressed and uncompressed saves can be loaded', () => {
+    saveToStorage(localStorage, 'plain', state, backupInterface);
+    saveToStorage(localStorage, 'small', state, backupInterface, {
+      compression: 'utf16',
+    });
+    expect(isCompressed(localStorage.getItem('small') as string)).toBe(true);
+
+    for (const key of ['plain', 'small']) {
+      expect(loadFromStorage({}, localStorage, key, backupInterface)).toEqual({
+        rows,
+      });
+    }
+  });
+
+  test('Binary saves can be stored in byte adapters', async () => {
+    const adapter = createMemoryAdapter<Uint8Array>();
+    await saveToStorageAsync(adapter, 'bytes', state, backupInterface, {
+      compression: 'binary',
+    });
+    expect(await adapter.get('bytes')).toBeInstanceOf(Uint8Array);
+    expect(
+      await loadFromStorageAsync({}, adapter, 'bytes', backupInterface)
+    ).toEqual({ rows });
+  });
+
+  test('Binary saves need a byte adapter', async () => {
+    const adapter = createStorageAdapter(localStorage);
+    await expect(
+      saveToStorageAsync(adapter, 'bytes', state, backupInterface, {
+        // @ts-expect-error
+        compression: 'binary',
+      })
+    ).rejects.toThrow(BackupError);
+    expect(localStorage.getItem('bytes')).toBeNull();
+  });
+
+  test('Corrupt saves are ignored', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const compressed = compressToUTF16(json);
+    localStorage.setItem('corrupt', compressed.slice(0, 50));
+
+    const loaded = loadFromStorage<typeof state>(
+      { other: 'a' },
+      localStorage,
+      'corrupt',
+      backupInterface
+    );
+    expect(loaded).toEqual({ other: 'a' });
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  AsyncDependencyLoader,
+  createBackup,
+  DependencyLoader,
+  loadBackup,
+  loadBackupAsync,
+} from '../src/backup';
+import { CopySliceBackupInterface } from '../src/def';
+import {
+  createLoadPlan,
+  exportDependencyGraph,
+  getDependencyGraph,
+  validateDependencies,
+} from '../src/dependencies';
+import { BackupDependencyError } from '../src/errors';
+
+interface State {
+  theme: { dark: boolean };
+  editor: { layers: number[]; selection: number };
+  settings: { scale: number };
+  [i: string]: any;
+}
+
+const state: State = {
+  theme: { dark: true },
+  editor: { layers: [1, 2], selection: 0 },
+  settings: { scale: 2 },
+};
+
+const backupInterface = {
+  theme: { ...CopySliceBackupInterface, dependsOn: [['editor']] },
+  editor: {
+    layers: {
+      ...CopySliceBackupInterface,
+      load: (
+        layers: number[],
+        deps: DependencyLoader<State['editor'], State>
+      ) => layers.map(layer => layer * deps.parent!.needs('settings').scale),
+      dependsOn: [['settings']],
+    },
+    selection: { ...CopySliceBackupInterface, dependsOn: ['layers'] },
+  },
+  settings: CopySliceBackupInterface,
+};
+const backup = createBackup(state, backupInterface);
+
+test('Declared dependencies form a graph', () => {
+  expect(getDependencyGraph(backupInterface)).toEqual({
+    slices: [
+      ['theme'],
+      ['editor', 'layers'],
+      ['editor', 'selection'],
+      ['settings'],
+    ],
+    dependencies: [
+      { from: ['theme'], to: ['editor', 'layers'] },
+      { from: ['theme'], to: ['editor', 'selection'] },
+      { from: ['editor', 'layers'], to: ['settings'] },
+      { from: ['editor', 'selection'], to: ['editor', 'layers'] },
+    ],
+  });
+});
+
+test('Load plans load dependencies first', () => {
+  expect(createLoadPlan(backupInterface)).toEqual([
+    ['settings'],
+    ['editor', 'layers'],
+    ['editor', 'selection'],
+    ['theme'],
+  ]);
+});
+
+test('Missing dependencies are invalid', () => {
+  const missingInterface = {
+    ...backupInterface,
+    settings: { ...CopySliceBackupInterface, dependsOn: [['editor', 'zoom']] },
+  };
+  expect(() => validateDependencies(missingInterface)).toThrow(
+    'Slice settings depends on editor.zoom, which is not in the backup interface.'
+  );
+});
+
+test('Circular dependencies across nested interfaces are invalid', () => {
+  const circularInterface = {
+    ...backupInterface,
+    settings: { ...CopySliceBackupInterface, dependsOn: ['theme'] },
+  };
+
+  expect.assertions(3);
+  try {
+    validateDependencies(circularInterface);
+  } catch (error) {
+    expect(error).toBeInstanceOf(BackupDependencyError);
+    expect(error.message).toBe(
+      'Circular dependency in backup interface: theme,editor.layers,settings,theme.'
+    );
+    expect(error.paths).toHaveLength(4);
+  }
+});
+
+test('Graphs can be exported', () => {
+  expect(exportDependencyGraph(backupInterface)).toBe(
+    [
+      'digraph backup {',
+      '  "theme";',
+      '  "editor.layers";',
+      '  "editor.selection";',
+      '  "settings";',
+      '  "theme" -> "editor.layers";',
+      '  "theme" -> "editor.selection";',
+      '  "editor.layers" -> "settings";',
+      '  "editor.selection" -> "editor.layers";',
+      '}',
+    ].join('\n')
+  );
+  expect(JSON.parse(exportDependencyGraph(backupInterface, 'json'))).toEqual(
+    getDependencyGraph(backupInterface)
+  );
+});
+
+describe('Strict loading', () => {
+  const undeclaredInterface = {
+    ...backupInterface,
+    settings: {
+      ...CopySliceBackupInterface,
+      load: (settings: State['settings'], deps: DependencyLoader<State>) => {
+        deps.needs('theme');
+        return settings;
+      },
+    },
+  };
+
+  test('Allows declared dependencies', () => {
+    expect(
+      loadBackup({}, backupInterface, backup, undefined, 'throw')
+    ).toEqual({ ...state, editor: { layers: [2, 4], selection: 0 } });
+  });
+
+  test('Throws on undeclared dependencies', () => {
+    expect(() =>
+      loadBackup({}, undeclaredInterface, backup, undefined, 'throw')
+    ).toThrow(
+      'Slice settings needs theme, which it does not declare in dependsOn.'
+    );
+  });
+
+  test('Can warn on undeclared dependencies instead', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    loadBackup({}, undeclaredInterface, backup, undefined, 'warn');
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  test('Can report undeclared dependencies to a function', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const onWarning = jest.fn();
+    expect(
+      loadBackup({}, undeclaredInterface, backup, undefined, onWarning)
+    ).toEqual(loadBackup({}, undeclaredInterface, backup));
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning.mock.calls[0][0]).toBeInstanceOf(BackupDependencyError);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('Rejects async loads with undeclared dependencies', async () => {
+    const asyncInterface = {
+      settings: CopySliceBackupInterface,
+      theme: {
+        ...CopySliceBackupInterface,
+        load: async (
+          theme: State['theme'],
+          deps: AsyncDependencyLoader<State>
+        ) => {
+          await deps.needs('settings');
+          return theme;
+        },
+      },
+    };
+    await expect(
+      loadBackupAsync({}, asyncInterface, backup, undefined, 'throw')
+    ).rejects.toThrow(BackupDependencyError);
+  });
+});
@@ -0,0 +1,85 @@
+import { createEntityAdapter, EntityState } from '@reduxjs/toolkit';
+import { createBackup, loadBackup } from '../src/backup';
+import { transform } from '../src/combinators';
+import { createEntityBackupInterface } from '../src/entities';
+
+interface Layer {
+  id: number;
+  name: string;
+  transient: boolean;
+  tags: Set<string>;
+}
+
+const layersAdapter = createEntityAdapter<Layer>({
+  sortComparer: (a, b) => a.name.localeCompare(b.name),
+});
+
+const layers = layersAdapter.setAll(layersAdapter.getInitialState(), [
+  { id: 1, name: 'Background', transient: false, tags: new Set(['base']) },
+  { id: 2, name: 'Preview', transient: true, tags: new Set() },
+  { id: 3, name: 'Ink', transient: false, tags: new Set() },
+]);
+
+test('Entities are stored as an array', () => {
+  const layersBackupInterface = createEntityBackupInterface(layersAdapter);
+  const stored = layersBackupInterface.save(layers);
+  expect(stored?.map(layer => layer.id)).toEqual([1, 3, 2]);
+  expect(layersBackupInterface.load(stored, undefined as never)).toEqual(
+    layers
+  );
+});
+
+test('Entities can be filtered and stored with their own interface', () => {
+  const layersBackupInterface = createEntityBackupInterface(layersAdapter, {
+    filter: layer => !layer.transient,
+    entity: transform(
+      ({ tags, ...layer }: Layer) => ({ ...layer, tags: [...tags] }),
+      ({ tags, ...layer }) => ({ ...layer, tags: new Set(tags) })
+    ),
+  });
+  const backup = createBackup({ layers }, { layers: layersBackupInterface });
+
+  // The stored type comes from the entity interface
+  const stored: { id: number; tags: string[] }[] | undefined = backup.layers;
+  expect(stored).toEqual([
+    { id: 1, name: 'Background', transient: false, tags: ['base'] },
+    { id: 3, name: 'Ink', transient: false, tags: [] },
+  ]);
+
+  expect(
+    loadBackup(
+      {},
+      { layers: layersBackupInterface },
+      JSON.parse(JSON.stringify(backup))
+    ).layers
+  ).toEqual(layersAdapter.removeOne(layers, 2));
+});
+
+test('Loading rebuilds ids in the sort order', () => {
+  const layersBackupInterface = createEntityBackupInterface(layersAdapter);
+  const loaded = layersBackupInterface.load(
+    [
+      { id: 3, name: 'C', transient: false, tags: new Set() },
+      { id: 1, name: 'A', transient: false, tags: new Set() },
+      { id: 2, name: 'B', transient: false, tags: new Set() },
+    ],
+    undefined as never
+  );
+  expect(loaded?.ids).toEqual([1, 2, 3]);
+});
+
+test('Other fields load from the initial state', () => {
+  type LayersState = EntityState<Layer> & { loading: boolean };
+  const initialState: LayersState = layersAdapter.getInitialState({
+    loading: false,
+  });
+  const layersBackupInterface = createEntityBackupInterface(layersAdapter, {
+    initialState,
+  });
+
+  const loaded = layersBackupInterface.load(
+    layersBackupInterface.save({ ...layers, loading: true }),
+    undefined as never
+  );
+  expect(loaded).toEqual({ ...layers, loading: false });
+});
@@ -0,0 +1,202 @@
+import * as nodeCrypto from 'crypto';
+import { AsyncStorageAdapter, createMemoryAdapter } from '../src/adapters';
+import { CopySliceBackupInterface } from '../src/def';
+import { BackupEnvelopeOptions, openBackup, sealBackup } from '../src/envelope';
+import { BackupDecryptionError, BackupSignatureError } from '../src/errors';
+import {
+  loadFromStorage,
+  loadFromStorageAsync,
+  saveToStorageAsync,
+} from '../src/storage';
+
+// jsdom doesn't have WebCrypto, so use Node's
+const crypto = (nodeCrypto as any).webcrypto as Crypto;
+
+interface State {
+  profile: { name: string };
+  secrets: { token: string };
+  [i: string]: any;
+}
+
+const state: State = {
+  profile: { name: 'Ada' },
+  secrets: { token: 'hunter2' },
+};
+const backupInterface = {
+  profile: CopySliceBackupInterface,
+  secrets: CopySliceBackupInterface,
+};
+
+const createSigningKey = () =>
+  crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+
+const createEncryptionKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+
+/**
+ * Saves the test state and returns what was stored
+ */
+async function save(envelope: BackupEnvelopeOptions, compression?: 'utf16') {
+  const adapter = createMemoryAdapter();
+  await saveToStorageAsync(adapter, 'key', state, backupInterface, {
+    envelope,
+    compression,
+  });
+  return { adapter, stored: (await adapter.get('key')) as string };
+}
+
+const load = (adapter: AsyncStorageAdapter, envelope: BackupEnvelopeOptions) =>
+  loadFromStorageAsync<State>({}, adapter, 'key', backupInterface, {
+    envelope,
+  });
+
+describe('Signed backups', () => {
+  test('Load when the signature matches', async () => {
+    const envelope = { signingKey: await createSigningKey(), crypto };
+    const { adapter } = await save(envelope);
+    expect(await load(adapter, envelope)).toEqual(state);
+  });
+
+  test('Fail to load when tampered with', async () => {
+    const envelope = { signingKey: await createSigningKey(), crypto };
+    const { adapter, stored } = await save(envelope);
+    await adapter.set('key', stored.replace('Ada', 'Eve'));
+
+    const error = await load(adapter, envelope).catch(error => error);
+    expect(error).toBeInstanceOf(BackupSignatureError);
+    expect(error.reason).toBe('mismatch');
+  });
+
+  test('Fail to load when not signed', async () => {
+    const { adapter } = await save({});
+    const error = await load(adapter, {
+      signingKey: await createSigningKey(),
+      crypto,
+    }).catch(error => error);
+    expect(error).toBeInstanceOf(BackupSignatureError);
+    expect(error.reason).toBe('missing');
+  });
+});
+
+describe('Encrypted backups', () => {
+  test('Hide their contents and load with the key', async () => {
+    const envelope = {
+      encryptionKey: await createEncryptionKey(),
+      signingKey: await createSigningKey(),
+      crypto,
+    };
+    const { adapter, stored } = await save(envelope, 'utf16');
+    expect(stored).not.toContain('hunter2');
+    expect(await load(adapter, envelope)).toEqual(state);
+  });
+
+  test('Fail to load with the wrong key', async () => {
+    const { adapter } = await save({
+      encryptionKey: await createEncryptionKey(),
+      crypto,
+    });
+    await expect(
+      load(adapter, { encryptionKey: await createEncryptionKey(), crypto })
+    ).rejects.toThrow(BackupDecryptionError);
+  });
+
+  test('Can not be loaded synchronously', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('sealed', '{"$sealed":1,"iv":"","data":""}');
+    expect(
+      loadFromStorage<State>({}, localStorage, 'sealed', backupInterface)
+    ).toEqual({});
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('Sensitive slices', () => {
+  test('Are the only slices encrypted', async () => {
+    const envelope = {
+      encryptionKey: await createEncryptionKey(),
+      sensitive: ['secrets'],
+      crypto,
+    };
+    const { adapter, stored } = await save(envelope);
+    expect(stored).toContain('Ada');
+    expect(stored).not.toContain('hunter2');
+    expect(await load(adapter, envelope)).toEqual(state);
+  });
+
+  test('Are encrypted in versioned backups', async () => {
+    const envelope = {
+      encryptionKey: await createEncryptionKey(),
+      sensitive: ['secrets'],
+      crypto,
+    };
+    const versionOptions = { version: 1 };
+    const adapter = createMemoryAdapter();
+    await saveToStorageAsync(adapter, 'key', state, backupInterface, {
+      versionOptions,
+      envelope,
+    });
+
+    const stored = (await adapter.get('key')) as string;
+    expect(stored).toContain('Ada');
+    expect(stored).not.toContain('hunter2');
+    expect(
+      await loadFromStorageAsync<State>({}, adapter, 'key', backupInterface, {
+        versionOptions,
+        envelope,
+      })
+    ).toEqual(state);
+  });
+
+  test('Can be undefined', async () => {
+    const envelope = {
+      encryptionKey: await createEncryptionKey(),
+      sensitive: ['auth'],
+      crypto,
+    };
+    const sealed = await sealBackup({ a: 1, auth: undefined }, envelope);
+    expect(await openBackup(sealed, envelope)).toEqual({ a: 1 });
+
+    // Slices the backup interface defines are fine even if they aren't saved
+    const adapter = createMemoryAdapter();
+    await saveToStorageAsync(
+      adapter,
+      'key',
+      { profile: state.profile } as State,
+      backupInterface,
+      { envelope: { ...envelope, sensitive: ['secrets'] } }
+    );
+    expect(
+      await load(adapter, { ...envelope, sensitive: ['secrets'] })
+    ).toEqual({ profile: state.profile });
+  });
+
+  test('Must be defined by the backup interface', async () => {
+    await expect(
+      save({
+        encryptionKey: await createEncryptionKey(),
+        sensitive: ['password'],
+        crypto,
+      })
+    ).rejects.toThrow(
+      "Sensitive slice password is not in the backup, so it can't be encrypted."
+    );
+  });
+
+  test('Fail to load when stored in plain text', async () => {
+    const { adapter } = await save({});
+    const error = await load(adapter, {
+      encryptionKey: await createEncryptionKey(),
+      sensitive: ['secrets'],
+      crypto,
+    }).catch(error => error);
+    expect(error).toBeInstanceOf(BackupDecryptionError);
+    expect(error.path).toEqual(['secrets']);
+  });
+});
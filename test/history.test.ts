@@ -0,0 +1,141 @@
+import { StateBackupInterface } from '../src/backup';
+import { UndoHistoryError } from '../src/errors';
+import {
+  createUndoHistoryBackup,
+  loadUndoHistoryFromStorage,
+  restoreUndoHistory,
+  saveUndoHistoryToStorage,
+} from '../src/history';
+import { createUndoableReducer, undo } from '../src/undo';
+
+type State = { list: { items: number[] } };
+
+const stateBackupInterface: StateBackupInterface<State> = {
+  list: {
+    save: (list: State['list']) => list.items,
+    load: (stored: number[] | undefined) =>
+      stored === undefined ? undefined : { items: stored },
+  },
+};
+
+// Undoable actions add an item
+const reducer = (
+  state: State = { list: { items: [] } },
+  action: { type: string }
+): State =>
+  action.type.indexOf('/undoable/') !== -1
+    ? { list: { items: [...state.list.items, state.list.items.length] } }
+    : state;
+
+const undoReducer = createUndoableReducer(reducer, stateBackupInterface);
+
+// Creates a state with 5 items, undone once
+const createState = () => {
+  let state = undoReducer(undefined, { type: 'init' });
+  for (let i = 0; i < 5; i++) {
+    state = undoReducer(state, { type: 'list/undoable/add' });
+  }
+  return undoReducer(state, undo());
+};
+
+// Strips the undo data from a state, like loading it from a regular backup would
+const stripUndoData = (state: ReturnType<typeof undoReducer>): State => ({
+  list: state.list,
+});
+
+test('Can restore the undo history', () => {
+  const state = createState();
+  const backup = JSON.parse(JSON.stringify(createUndoHistoryBackup(state)));
+  const restored = restoreUndoHistory(
+    stripUndoData(state),
+    stateBackupInterface,
+    backup
+  );
+
+  expect(restored.history).toHaveLength(4);
+  expect(restored.future).toHaveLength(1);
+  expect(restored.undoMeta.historyInfo).toEqual(state.undoMeta.historyInfo);
+  expect(restored.undoMeta.futureInfo).toEqual(state.undoMeta.futureInfo);
+
+  // Undo and redo work on the restored state
+  let next = restored;
+  for (let i = 0; i < 4; i++) {
+    next = undoReducer(next, undo());
+  }
+  expect(next.list.items).toEqual([]);
+});
+
+test('Backups without moment information can be restored', () => {
+  const state = createState();
+  const { historyInfo, futureInfo, ...backup } = createUndoHistoryBackup(state);
+  const restored = restoreUndoHistory(
+    stripUndoData(state),
+    stateBackupInterface,
+    backup
+  );
+  expect(restored.undoMeta.historyInfo).toEqual([
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+  ]);
+  expect(restored.undoMeta.futureInfo).toEqual([undefined]);
+});
+
+test('Stored history can be capped', () => {
+  const backup = createUndoHistoryBackup(createState(), {
+    historyLimit: 2,
+    futureLimit: 0,
+  });
+  expect(backup.history).toHaveLength(2);
+  expect(backup.future).toHaveLength(0);
+});
+
+test('History for a different state is rejected', () => {
+  const state = createState();
+  const backup = createUndoHistoryBackup(state);
+  expect(() =>
+    restoreUndoHistory({ list: { items: [7] } }, stateBackupInterface, backup)
+  ).toThrow(UndoHistoryError);
+});
+
+test('History with diffs that do not apply is rejected', () => {
+  const state = createState();
+  const backup = createUndoHistoryBackup(state);
+
+  // Replace a diff with one that changes a property of a number
+  backup.history[2] = { list: { _t: 'a', 0: { a: [1, 2] } } };
+  expect(() =>
+    restoreUndoHistory(stripUndoData(state), stateBackupInterface, backup)
+  ).toThrow(UndoHistoryError);
+});
+
+test('Can save and load history from storage', () => {
+  const state = createState();
+  saveUndoHistoryToStorage(localStorage, 'history', state);
+
+  const loaded = loadUndoHistoryFromStorage(
+    stripUndoData(state),
+    localStorage,
+    'history',
+    stateBackupInterface
+  );
+  expect(loaded.history).toEqual(state.history);
+  expect(loaded.future).toEqual(state.future);
+});
+
+test('Invalid stored history falls back to an empty history', () => {
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  saveUndoHistoryToStorage(localStorage, 'history', createState());
+
+  const loaded = loadUndoHistoryFromStorage(
+    { list: { items: [7] } },
+    localStorage,
+    'history',
+    stateBackupInterface
+  );
+  expect(loaded.history).toHaveLength(0);
+  expect(loaded.present).toEqual({ list: [7] });
+  expect(error).toHaveBeenCalled();
+  error.mockRestore();
+});
@@ -0,0 +1,119 @@
+import { Delta, diff, patch } from 'jsondiffpatch';
+import cloneDeep from 'lodash/cloneDeep';
+import { restore } from '../src/diff';
+import { applyDelta } from '../src/patch';
+
+// Small deterministic random number generator so failures can be reproduced
+function createRandom(seed: number) {
+  return (max: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % max;
+  };
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+// Makes a few random changes to a copy of a value
+function mutate(value: any, random: (max: number) => number): any {
+  if (Array.isArray(value)) {
+    const copy = value.map(item => mutate(item, random));
+    switch (random(4)) {
+      case 0:
+        copy.splice(random(copy.length + 1), 0, { id: random(1000) });
+        break;
+      case 1:
+        copy.splice(random(copy.length), 1);
+        break;
+      case 2:
+        copy.reverse();
+        break;
+    }
+    return copy;
+  } else if (typeof value === 'object' && value !== null) {
+    const copy: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      if (random(8) !== 0) {
+        copy[key] = random(4) === 0 ? mutate(value[key], random) : value[key];
+      }
+    }
+    if (random(4) === 0) {
+      copy[`key${random(10)}`] = random(100);
+    }
+    return copy;
+  } else if (typeof value === 'string') {
+    return random(2) === 0 ? value : `${value} and more`;
+  }
+  return random(3) === 0 ? random(100) : value;
+}
+
+const base = {
+  title: 'A document title long enough to be diffed as text by jsondiffpatch',
+  items: [1, 2, 3, { id: 4, tags: ['a', 'b'] }, [5, 6]],
+  nested: { a: { b: { c: 1 } }, list: ['x', 'y', 'z'] },
+  empty: null,
+};
+
+test('Patches the same way as jsondiffpatch', () => {
+  const random = createRandom(42);
+  for (let i = 0; i < 500; i++) {
+    const left = deepFreeze(mutate(base, random));
+    const right = mutate(left, random);
+    const delta = diff(left, right) as Delta;
+
+    // Frozen inputs make sure nothing is mutated
+    const patched = applyDelta(left, delta);
+    expect(patched).toEqual(right);
+    expect(patched).toEqual(patch(cloneDeep(left), delta));
+  }
+});
+
+test('Patches text diffs', () => {
+  const left = { text: 'x'.repeat(80) + ' hello world' };
+  const right = { text: 'x'.repeat(80) + ' hello there world!' };
+  expect(applyDelta(deepFreeze(left), diff(left, right))).toEqual(right);
+});
+
+test('Unchanged subtrees keep their identity', () => {
+  const left = deepFreeze({
+    a: { list: [{ id: 1 }, { id: 2 }] },
+    b: { value: 1 },
+  });
+  const right = { a: { list: [{ id: 1 }, { id: 2 }, { id: 3 }] }, b: left.b };
+  const patched = applyDelta(left, diff(left, right)) as typeof right;
+
+  expect(patched).toEqual(right);
+  expect(patched.b).toBe(left.b);
+  expect(patched.a.list[0]).toBe(left.a.list[0]);
+  expect(patched.a).not.toBe(left.a);
+});
+
+test('Nested deltas do not apply to primitives', () => {
+  expect(() => applyDelta(1, { a: [1, 2] })).toThrow();
+  expect(() => applyDelta({ a: 1 }, { a: { _t: 'a', 0: [1] } })).toThrow();
+});
+
+test('Restoring large states shares unchanged rows', () => {
+  const rows = Array.from({ length: 5000 }, (_, i) => ({
+    id: i,
+    name: `Row ${i}`,
+    cells: [i, i * 2, i * 3],
+  }));
+  const current = deepFreeze({ rows });
+  const previous = {
+    rows: rows.map((row, i) => (i === 2500 ? { ...row, name: 'Edited' } : row)),
+  };
+  const restored = restore(current, diff(current, previous) as Delta);
+
+  expect(restored).toEqual(previous);
+  expect(restored.rows).not.toBe(current.rows);
+  expect(restored.rows[2500]).not.toBe(current.rows[2500]);
+  expect(restored.rows[2500].cells).toBe(current.rows[2500].cells);
+  expect(restored.rows[0]).toBe(current.rows[0]);
+  expect(restored.rows[4999]).toBe(current.rows[4999]);
+});
@@ -0,0 +1,209 @@
+import { configureStore, createSlice } from '@reduxjs/toolkit';
+import { isCompressed } from '../src/compress';
+import { CopySliceBackupInterface } from '../src/def';
+import {
+  createSessionMiddleware,
+  loadInitialStateFromSession,
+  SessionMiddlewareOptions,
+} from '../src/session';
+
+interface State {
+  counter: { value: number };
+  other: { value: number };
+  [i: string]: any;
+}
+
+const counter = createSlice({
+  name: 'counter',
+  initialState: { value: 0 },
+  reducers: {
+    increment: state => {
+      state.value += 1;
+    },
+    noop: state => state,
+  },
+});
+
+const other = createSlice({
+  name: 'other',
+  initialState: { value: 0 },
+  reducers: {
+    increment: state => {
+      state.value += 1;
+    },
+  },
+});
+
+const backupInterface = { counter: CopySliceBackupInterface };
+
+function createTestStore(options: SessionMiddlewareOptions = {}) {
+  // Storage that counts writes
+  const items = new Map<string, string>();
+  const setItem = jest.fn((key: string, value: string) => {
+    items.set(key, value);
+  });
+  const storage: Storage = {
+    length: 0,
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: () => null,
+    removeItem: key => items.delete(key),
+    setItem,
+  };
+
+  const middleware = createSessionMiddleware<State>(backupInterface, 'key', {
+    storage,
+    ...options,
+  });
+  const store = configureStore({
+    reducer: { counter: counter.reducer, other: other.reducer },
+    middleware: [middleware],
+  });
+
+  const saved = () =>
+    loadInitialStateFromSession<State>({}, backupInterface, 'key', storage)
+      .counter?.value;
+
+  return { store, middleware, setItem, saved };
+}
+
+// Fake timers don't mock Date.now, so we keep our own clock
+let now = 0;
+function advance(ms: number) {
+  for (let i = 0; i < ms; i++) {
+    now += 1;
+    jest.advanceTimersByTime(1);
+  }
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+test('Saves after every action by default', () => {
+  const { store, setItem, saved } = createTestStore();
+  store.dispatch(counter.actions.increment());
+  store.dispatch(counter.actions.increment());
+  expect(setItem).toHaveBeenCalledTimes(2);
+  expect(saved()).toBe(2);
+});
+
+test('Debounced saves wait for actions to stop', () => {
+  const { store, setItem, saved } = createTestStore({ debounce: 100 });
+  for (let i = 0; i < 5; i++) {
+    store.dispatch(counter.actions.increment());
+    advance(50);
+  }
+  expect(setItem).not.toHaveBeenCalled();
+
+  advance(50);
+  expect(setItem).toHaveBeenCalledTimes(1);
+  expect(saved()).toBe(5);
+});
+
+test('Throttled saves happen at most once per interval', () => {
+  const { store, setItem, saved } = createTestStore({ throttle: 100 });
+  for (let i = 0; i < 10; i++) {
+    store.dispatch(counter.actions.increment());
+    advance(20);
+  }
+
+  // Saves at 0ms, 100ms, and 200ms
+  expect(setItem).toHaveBeenCalledTimes(3);
+  advance(100);
+  expect(setItem).toHaveBeenCalledTimes(3);
+  expect(saved()).toBe(10);
+});
+
+test('Throttle limits how long a debounce can delay', () => {
+  const { store, setItem } = createTestStore({ debounce: 50, throttle: 100 });
+  for (let i = 0; i < 6; i++) {
+    store.dispatch(counter.actions.increment());
+    advance(25);
+  }
+  expect(setItem).toHaveBeenCalledTimes(1);
+});
+
+test('Actions can be filtered', () => {
+  const { store, setItem } = createTestStore({
+    deny: [counter.actions.noop.type],
+    filter: action => action.type.startsWith('counter/'),
+  });
+  store.dispatch(counter.actions.noop());
+  store.dispatch(other.actions.increment());
+  expect(setItem).not.toHaveBeenCalled();
+
+  store.dispatch(counter.actions.increment());
+  expect(setItem).toHaveBeenCalledTimes(1);
+});
+
+test('Actions can be allowlisted', () => {
+  const { store, setItem } = createTestStore({
+    allow: [counter.actions.increment.type],
+  });
+  store.dispatch(other.actions.increment());
+  store.dispatch(counter.actions.noop());
+  expect(setItem).not.toHaveBeenCalled();
+
+  store.dispatch(counter.actions.increment());
+  expect(setItem).toHaveBeenCalledTimes(1);
+});
+
+test('Only saves when backed up slices change', () => {
+  const { store, setItem } = createTestStore({ onlyWhenChanged: true });
+  store.dispatch(counter.actions.increment());
+  store.dispatch(other.actions.increment());
+  store.dispatch(counter.actions.noop());
+  expect(setItem).toHaveBeenCalledTimes(1);
+
+  store.dispatch(counter.actions.increment());
+  expect(setItem).toHaveBeenCalledTimes(2);
+});
+
+test('Pending saves can be flushed', () => {
+  const { store, middleware, setItem, saved } = createTestStore({
+    debounce: 1000,
+  });
+  store.dispatch(counter.actions.increment());
+  middleware.flush();
+  expect(setItem).toHaveBeenCalledTimes(1);
+  expect(saved()).toBe(1);
+
+  // The timer was cancelled
+  advance(1000);
+  expect(setItem).toHaveBeenCalledTimes(1);
+});
+
+test('Pending saves are flushed when the page is hidden', () => {
+  const { store, setItem } = createTestStore({ debounce: 1000 });
+  store.dispatch(counter.actions.increment());
+  window.dispatchEvent(new Event('pagehide'));
+  expect(setItem).toHaveBeenCalledTimes(1);
+});
+
+test('Closing stops saving and removes the page listeners', () => {
+  const removeListener = jest.spyOn(window, 'removeEventListener');
+  const { store, middleware, setItem } = createTestStore({ debounce: 1000 });
+  store.dispatch(counter.actions.increment());
+  middleware.close();
+  expect(removeListener).toHaveBeenCalledWith('pagehide', expect.any(Function));
+
+  // Neither the scheduled save nor later actions save
+  window.dispatchEvent(new Event('pagehide'));
+  store.dispatch(counter.actions.increment());
+  advance(1000);
+  expect(setItem).not.toHaveBeenCalled();
+});
+
+test('Saves can be compressed', () => {
+  const { store, setItem, saved } = createTestStore({ compression: 'utf16' });
+  store.dispatch(counter.actions.increment());
+  expect(isCompressed(setItem.mock.calls[0][1])).toBe(true);
+  expect(saved()).toBe(1);
+});
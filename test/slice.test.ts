@@ -1,4 +1,9 @@
-import { createBackupSlice } from '../src/slice';
+import { AnyAction, createAction, createAsyncThunk } from '@reduxjs/toolkit';
+import { createBackup, loadBackup } from '../src/backup';
+import { CopySliceBackupInterface } from '../src/def';
+import { BackupError } from '../src/errors';
+import { createUndoableReducer, undo } from '../src/undo';
+import { combineBackupSlices, createBackupSlice } from '../src/slice';
 
 const initialState = { num: 4 };
 
@@ -59,3 +64,194 @@ test('Undoable actions are processed properly', () => {
   );
   expect(nextUndoState.num).toBe(initialState.num + 4);
 });
+
+test('Undoable reducers can have prepare callbacks', () => {
+  const slice = createBackupSlice({
+    name: 'myslice',
+    initialState,
+    reducers: {},
+    undoableReducers: {
+      add: {
+        reducer: (state, action: { type: string; payload: number }) => {
+          state.num += action.payload;
+        },
+        prepare: (a: number, b: number) => ({ payload: a + b }),
+      },
+    },
+  });
+
+  const action = slice.actions.add(1, 2);
+  expect(action.type).toBe('myslice/undoable/add');
+  expect(slice.reducer(initialState, action).num).toBe(7);
+});
+
+describe('Undoable extra reducers', () => {
+  const reset = createAction('reset');
+  const load = createAsyncThunk('myslice/load', async (num: number) => num);
+
+  const slice = createBackupSlice({
+    name: 'myslice',
+    initialState,
+    reducers: {},
+    extraReducers: builder => {
+      builder.addMatcher(
+        action => action.type === 'double',
+        state => {
+          state.num *= 2;
+        }
+      );
+    },
+    undoableExtraReducers: builder => {
+      builder
+        .addCase(load.fulfilled, (state, action) => {
+          state.num = action.payload;
+        })
+        .addMatcher(
+          action => action.type === 'increment',
+          state => {
+            state.num += 1;
+          }
+        );
+    },
+  });
+
+  test('Handles cases and matchers from both builders', () => {
+    let state = slice.reducer(initialState, load.fulfilled(10, '', 10));
+    state = slice.reducer(state, { type: 'increment' });
+    state = slice.reducer(state, { type: 'double' });
+    expect(state.num).toBe(22);
+  });
+
+  test('Marks only undoable actions', () => {
+    expect(slice.isUndoableAction(load.fulfilled(10, '', 10))).toBe(true);
+    expect(slice.isUndoableAction({ type: 'increment' })).toBe(true);
+    expect(slice.isUndoableAction(load.pending('', 10))).toBe(false);
+    expect(slice.isUndoableAction({ type: 'double' })).toBe(false);
+    expect(slice.isUndoableAction(reset())).toBe(false);
+  });
+
+  test('Creates history moments in undoable reducers', () => {
+    type State = { myslice: typeof initialState };
+    const reducer = createUndoableReducer(
+      (state: State = { myslice: initialState }, action: AnyAction): State => ({
+        myslice: slice.reducer(state.myslice, action),
+      }),
+      { myslice: CopySliceBackupInterface },
+      { undoable: slice.isUndoableAction }
+    );
+    let state = reducer(undefined, { type: '@@INIT' });
+    state = reducer(state, load.fulfilled(10, '', 10));
+    state = reducer(state, { type: 'double' });
+    expect(state.history).toHaveLength(1);
+
+    state = reducer(state, undo());
+    expect(state.myslice.num).toBe(4);
+  });
+});
+
+describe('Backup option', () => {
+  const settingsState = { theme: 'light', zoom: 1, cache: ['a'] };
+
+  test('Uses a backup interface directly', () => {
+    const slice = createBackupSlice({
+      name: 'settings',
+      initialState: settingsState,
+      reducers: {},
+      backup: {
+        save: (state: typeof settingsState) => state.theme,
+        load: (theme: string | undefined) =>
+          theme === undefined ? undefined : { ...settingsState, theme },
+      },
+    });
+    const stored: string | undefined = slice.backupInterface.save(
+      settingsState
+    );
+    expect(stored).toBe('light');
+  });
+
+  test('Can pick or omit fields', () => {
+    const picked = createBackupSlice({
+      name: 'settings',
+      initialState: settingsState,
+      reducers: {},
+      backup: { pick: ['theme'] },
+    });
+    const omitted = createBackupSlice({
+      name: 'omitted',
+      initialState: settingsState,
+      reducers: {},
+      backup: { omit: ['cache'] },
+    });
+    const other = createBackupSlice({
+      name: 'other',
+      initialState,
+      reducers: {},
+    });
+
+    const backupInterface = combineBackupSlices({
+      settings: picked,
+      omitted,
+      other,
+    });
+    // Type check: fails to compile if slices without a backup interface are included
+    const keys: ('settings' | 'omitted')[] = Object.keys(
+      backupInterface
+    ) as (keyof typeof backupInterface)[];
+    expect(keys).toEqual(['settings', 'omitted']);
+
+    const state = {
+      settings: { theme: 'dark', zoom: 2, cache: [] as string[] },
+      omitted: { theme: 'dark', zoom: 2, cache: ['b'] },
+      other: initialState,
+    };
+    const backup = createBackup(state, backupInterface);
+
+    // Type checks: these assignments fail to compile if the stored types are wrong
+    const settings: { theme: string } | undefined = backup.settings;
+    const omittedSettings: { theme: string; zoom: number } | undefined =
+      backup.omitted;
+    expect(settings).toEqual({ theme: 'dark' });
+    expect(omittedSettings).toEqual({ theme: 'dark', zoom: 2 });
+
+    expect(loadBackup({}, backupInterface, backup)).toEqual({
+      settings: { theme: 'dark', zoom: 1, cache: ['a'] },
+      omitted: { theme: 'dark', zoom: 2, cache: ['a'] },
+    });
+  });
+
+  test('Fields that are not stored load from a lazy initial state', () => {
+    let zoom = 1;
+    const slice = createBackupSlice({
+      name: 'settings',
+      // Lazy initial states are typed as the state before Redux Toolkit 1.6
+      initialState: (((): typeof settingsState => ({
+        ...settingsState,
+        zoom,
+      })) as unknown) as typeof settingsState,
+      reducers: {},
+      backup: { pick: ['theme'] },
+    });
+
+    zoom = 3;
+    expect(
+      slice.backupInterface.load({ theme: 'dark' }, undefined as never)
+    ).toEqual({ theme: 'dark', zoom: 3, cache: ['a'] });
+  });
+});
+
+test('Action types handled by both extra reducer builders throw', () => {
+  const reset = createAction('reset');
+  expect(() =>
+    createBackupSlice({
+      name: 'myslice',
+      initialState,
+      reducers: {},
+      extraReducers: builder => {
+        builder.addCase(reset, () => initialState);
+      },
+      undoableExtraReducers: builder => {
+        builder.addCase(reset, () => initialState);
+      },
+    })
+  ).toThrow(BackupError);
+});
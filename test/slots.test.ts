@@ -0,0 +1,135 @@
+import { createMemoryAdapter } from '../src/adapters';
+import { CopySliceBackupInterface } from '../src/def';
+import {
+  createSaveSlotManager,
+  SaveSlotCorruptError,
+  SaveSlotNotFoundError,
+} from '../src/slots';
+
+interface State {
+  game: { level: number };
+  ui: { menuOpen: boolean };
+  [i: string]: any;
+}
+
+const backupInterface = { game: CopySliceBackupInterface };
+
+function createManager() {
+  const adapter = createMemoryAdapter();
+  const manager = createSaveSlotManager<State, number>(
+    adapter,
+    backupInterface,
+    { preview: state => state.game.level }
+  );
+  return { adapter, manager };
+}
+
+const state = (level: number): State => ({
+  game: { level },
+  ui: { menuOpen: true },
+});
+
+test('Can save and load slots', async () => {
+  const { manager } = createManager();
+  await manager.save(1, state(1), { kind: 'manual', label: 'First' });
+  await manager.save('quicksave', state(2), { kind: 'quicksave' });
+
+  const loaded = await manager.load(1, { ui: { menuOpen: false } });
+  expect(loaded).toEqual({ game: { level: 1 }, ui: { menuOpen: false } });
+  expect((await manager.load('quicksave', {})).game).toEqual({ level: 2 });
+});
+
+test('Can list slot metadata without loading saves', async () => {
+  const { adapter, manager } = createManager();
+  const now = jest.spyOn(Date, 'now');
+  now.mockReturnValue(100);
+  await manager.save(1, state(1), { label: 'First', playTime: 60 });
+  now.mockReturnValue(200);
+  await manager.save(2, state(5));
+  now.mockRestore();
+
+  const get = jest.spyOn(adapter, 'get');
+  const slots = await manager.list();
+  expect(get).toHaveBeenCalledTimes(1);
+
+  expect(slots).toEqual([
+    { id: '2', timestamp: 200, preview: 5 },
+    { id: '1', timestamp: 100, preview: 1, label: 'First', playTime: 60 },
+  ]);
+});
+
+test('Saving over a slot replaces it', async () => {
+  const { manager } = createManager();
+  await manager.save(1, state(1), { label: 'Old' });
+  await manager.save(1, state(3), { label: 'New' });
+
+  expect(await manager.list()).toHaveLength(1);
+  expect((await manager.get(1))?.label).toBe('New');
+  expect((await manager.load(1, {})).game).toEqual({ level: 3 });
+});
+
+test('Can copy, rename and remove slots', async () => {
+  const { adapter, manager } = createManager();
+  await manager.save(1, state(1), { label: 'First' });
+
+  await manager.copy(1, 2);
+  expect((await manager.load(2, {})).game).toEqual({ level: 1 });
+
+  await manager.rename(2, 'Copy');
+  expect((await manager.get(2))?.label).toBe('Copy');
+  expect((await manager.get(1))?.label).toBe('First');
+
+  await manager.remove(1);
+  expect(await manager.get(1)).toBeUndefined();
+  expect(await adapter.keys()).not.toContain('saves/slot/1');
+});
+
+test('Operating on a missing slot throws', async () => {
+  const { manager } = createManager();
+  await expect(manager.load(4, {})).rejects.toThrow(SaveSlotNotFoundError);
+  await expect(manager.copy(4, 5)).rejects.toThrow(SaveSlotNotFoundError);
+  await expect(manager.rename(4, 'x')).rejects.toThrow(SaveSlotNotFoundError);
+  await expect(manager.remove(4)).rejects.toThrow(SaveSlotNotFoundError);
+});
+
+test('Loading a corrupt slot throws', async () => {
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  const { adapter, manager } = createManager();
+  await manager.save(1, state(1));
+  await adapter.set('saves/slot/1', '{"game":');
+
+  await expect(manager.load(1, {})).rejects.toThrow(SaveSlotCorruptError);
+  expect(error).not.toHaveBeenCalled();
+  error.mockRestore();
+});
+
+test('Loading a slot whose data is missing throws', async () => {
+  const { adapter, manager } = createManager();
+  await manager.save(1, state(1));
+  await adapter.remove('saves/slot/1');
+
+  await expect(manager.load(1, state(0))).rejects.toThrow(
+    SaveSlotNotFoundError
+  );
+});
+
+test('Concurrent saves keep every slot in the index', async () => {
+  const { manager } = createManager();
+  await Promise.all([1, 2, 3, 4].map(id => manager.save(id, state(id))));
+  expect(await manager.list()).toHaveLength(4);
+});
+
+test('Repair makes the index match the stored slots', async () => {
+  const { adapter, manager } = createManager();
+  await manager.save(1, state(1));
+  await manager.save(2, state(2));
+
+  // Break the index
+  await adapter.remove('saves/slot/1');
+  await adapter.set('saves/slot/3', (await adapter.get('saves/slot/2')) ?? '');
+
+  await manager.repair();
+  const ids = (await manager.list()).map(slot => slot.id).sort();
+  expect(ids).toEqual(['2', '3']);
+  expect((await manager.load(3, {})).game).toEqual({ level: 2 });
+});
@@ -0,0 +1,196 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { configureStore, createSlice } from '@reduxjs/toolkit';
+import {
+  AsyncStorageAdapter,
+  createFileSystemAdapter,
+  createMemoryAdapter,
+  createStorageAdapter,
+} from '../src/adapters';
+import { CopySliceBackupInterface } from '../src/def';
+import { SliceLoadError } from '../src/errors';
+import {
+  createAsyncSessionMiddleware,
+  loadInitialStateFromSessionAsync,
+} from '../src/session';
+import {
+  loadFromStorage,
+  loadFromStorageAsync,
+  saveToStorage,
+  saveToStorageAsync,
+} from '../src/storage';
+
+interface State {
+  a: { value: number };
+  b: string;
+  [i: string]: any;
+}
+
+const state: State = { a: { value: 4 }, b: 'not saved' };
+const backupInterface = { a: CopySliceBackupInterface };
+
+// Directory for the file system adapter
+const directory = join(tmpdir(), `redux-flexible-backup-${Date.now()}`);
+afterAll(() => fs.rmdir(directory, { recursive: true }));
+
+test('Can save and load from DOM storage', () => {
+  saveToStorage(localStorage, 'sync', state, backupInterface);
+  const loaded = loadFromStorage<State>(
+    { b: 'b' },
+    localStorage,
+    'sync',
+    backupInterface
+  );
+  expect(loaded).toEqual({ a: { value: 4 }, b: 'b' });
+});
+
+describe.each([
+  ['memory', () => createMemoryAdapter()],
+  ['DOM storage', () => createStorageAdapter(sessionStorage)],
+  ['file system', () => createFileSystemAdapter(fs, directory)],
+])('The %s adapter', (_name, createAdapter: () => AsyncStorageAdapter) => {
+  test('Can get, set, and remove keys', async () => {
+    const adapter = createAdapter();
+    expect(await adapter.get('some/key')).toBeUndefined();
+
+    await adapter.set('some/key', 'value');
+    expect(await adapter.get('some/key')).toBe('value');
+    expect(await adapter.keys()).toContain('some/key');
+
+    await adapter.remove('some/key');
+    expect(await adapter.get('some/key')).toBeUndefined();
+    expect(await adapter.keys()).not.toContain('some/key');
+
+    // Removing twice is fine
+    await adapter.remove('some/key');
+  });
+
+  test('Can store keys that look like paths', async () => {
+    const adapter = createAdapter();
+    for (const key of ['.', '..', '../outside']) {
+      await adapter.set(key, key);
+    }
+    for (const key of ['.', '..', '../outside']) {
+      expect(await adapter.get(key)).toBe(key);
+    }
+    expect(await adapter.keys()).toEqual(
+      expect.arrayContaining(['.', '..', '../outside'])
+    );
+  });
+
+  test('Can save and load a backup', async () => {
+    const adapter = createAdapter();
+    await saveToStorageAsync(adapter, 'async', state, backupInterface);
+
+    const loaded = await loadFromStorageAsync<State>(
+      { b: 'b' },
+      adapter,
+      'async',
+      backupInterface
+    );
+    expect(loaded).toEqual({ a: { value: 4 }, b: 'b' });
+  });
+});
+
+test('Loading a missing or broken backup returns the original state', async () => {
+  const adapter = createMemoryAdapter({ broken: '{not json' });
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  expect(
+    await loadFromStorageAsync(state, adapter, 'missing', backupInterface)
+  ).toBe(state);
+  expect(
+    await loadFromStorageAsync(state, adapter, 'broken', backupInterface)
+  ).toBe(state);
+  expect(error).toHaveBeenCalledTimes(1);
+
+  error.mockRestore();
+});
+
+test('Slices that fail to load can be skipped', () => {
+  const failingInterface = {
+    a: CopySliceBackupInterface,
+    b: {
+      save: (b: string) => b,
+      load: (): string => {
+        throw new Error('Broken');
+      },
+    },
+  };
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  saveToStorage(localStorage, 'failing', state, failingInterface);
+
+  // By default the whole backup is ignored
+  expect(
+    loadFromStorage<State>(
+      { b: 'b' },
+      localStorage,
+      'failing',
+      failingInterface
+    )
+  ).toEqual({ b: 'b' });
+
+  expect(error).toHaveBeenCalledTimes(1);
+
+  // But the slices that load can be kept, with the failures reported instead of logged
+  const onReport = jest.fn();
+  expect(
+    loadFromStorage<State>(
+      { b: 'b' },
+      localStorage,
+      'failing',
+      failingInterface,
+      { onError: 'skip', onReport }
+    )
+  ).toEqual({ a: { value: 4 }, b: 'b' });
+  expect(onReport).toHaveBeenCalledTimes(1);
+  const [report] = onReport.mock.calls[0];
+  expect(report.loaded).toEqual([['a']]);
+  expect(report.errors.map((e: SliceLoadError) => e.path)).toEqual([['b']]);
+  expect(error).toHaveBeenCalledTimes(1);
+
+  error.mockRestore();
+});
+
+test('Async session middleware saves the latest state', async () => {
+  const slice = createSlice({
+    name: 'a',
+    initialState: { value: 0 },
+    reducers: {
+      increment: s => {
+        s.value += 1;
+      },
+    },
+  });
+
+  const adapter = createMemoryAdapter();
+  const initial = await loadInitialStateFromSessionAsync<State>(
+    {},
+    backupInterface,
+    'session',
+    adapter
+  );
+  const store = configureStore({
+    reducer: { a: slice.reducer, b: (s: string = 'b') => s },
+    preloadedState: initial,
+    middleware: [
+      createAsyncSessionMiddleware<State>(backupInterface, 'session', adapter),
+    ],
+  });
+
+  for (let i = 0; i < 5; i++) {
+    store.dispatch(slice.actions.increment());
+  }
+
+  // Let pending saves finish
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  const loaded = await loadInitialStateFromSessionAsync<State>(
+    {},
+    backupInterface,
+    'session',
+    adapter
+  );
+  expect(loaded.a).toEqual({ value: 5 });
+});
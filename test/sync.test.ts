@@ -0,0 +1,223 @@
+import { combineReducers, configureStore, createSlice } from '@reduxjs/toolkit';
+import { SliceBackupInterface } from '../src/backup';
+import { CopySliceBackupInterface } from '../src/def';
+import {
+  createMemorySyncHub,
+  createStorageEventTransport,
+  createSyncMiddleware,
+  createSyncReducer,
+  SyncMessage,
+  SyncMiddlewareOptions,
+  SyncTransport,
+} from '../src/sync';
+
+const todos = createSlice({
+  name: 'todos',
+  initialState: { items: [] as string[] },
+  reducers: {
+    add: (state, { payload }: { payload: string }) => {
+      state.items.push(payload);
+    },
+  },
+});
+
+const ui = createSlice({
+  name: 'ui',
+  initialState: { open: false },
+  reducers: {
+    toggle: state => {
+      state.open = !state.open;
+    },
+  },
+});
+
+type State = {
+  todos: ReturnType<typeof todos.reducer>;
+  ui: ReturnType<typeof ui.reducer>;
+};
+
+const todosBackupInterface: SliceBackupInterface<State['todos'], string[]> = {
+  save: slice => slice.items,
+  load: stored => ({ items: stored ?? [] }),
+};
+const backupInterface = { todos: todosBackupInterface };
+
+type Options = SyncMiddlewareOptions<State, typeof backupInterface>;
+
+function createTab(transport: SyncTransport, id: string, options?: Options) {
+  const middleware = createSyncMiddleware<State, typeof backupInterface>(
+    backupInterface,
+    transport,
+    { id, ...options }
+  );
+  const store = configureStore({
+    reducer: createSyncReducer(
+      combineReducers({ todos: todos.reducer, ui: ui.reducer }),
+      backupInterface
+    ),
+    middleware: [middleware],
+  });
+  return { store, middleware, items: () => store.getState().todos.items };
+}
+
+let now = 0;
+beforeEach(() => {
+  now = 0;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('Changes are applied in other tabs', () => {
+  const hub = createMemorySyncHub();
+  const a = createTab(hub.connect(), 'a');
+  const b = createTab(hub.connect(), 'b');
+
+  now = 1;
+  a.store.dispatch(todos.actions.add('milk'));
+  expect(b.items()).toEqual(['milk']);
+
+  // Slices that aren't synced stay local
+  a.store.dispatch(ui.actions.toggle());
+  expect(b.store.getState().ui.open).toBe(false);
+});
+
+test('The last writer wins conflicts', () => {
+  const hub = createMemorySyncHub();
+  const a = createTab(hub.connect(), 'a', { debounce: 1000 });
+  const b = createTab(hub.connect(), 'b', { debounce: 1000 });
+
+  now = 1;
+  a.store.dispatch(todos.actions.add('milk'));
+  now = 2;
+  b.store.dispatch(todos.actions.add('eggs'));
+
+  // The older change arrives late and is ignored
+  b.middleware.flush();
+  a.middleware.flush();
+  expect(a.items()).toEqual(['eggs']);
+  expect(b.items()).toEqual(['eggs']);
+});
+
+test('Slices can be merged', () => {
+  const hub = createMemorySyncHub();
+  const merge = {
+    todos: (local: string[], remote: string[]) =>
+      Array.from(new Set([...local, ...remote])).sort(),
+  };
+  const a = createTab(hub.connect(), 'a', { debounce: 1000, merge });
+  const b = createTab(hub.connect(), 'b', { debounce: 1000, merge });
+
+  now = 1;
+  a.store.dispatch(todos.actions.add('milk'));
+  now = 2;
+  b.store.dispatch(todos.actions.add('eggs'));
+
+  a.middleware.flush();
+  expect(a.items()).toEqual(['eggs', 'milk']);
+  expect(b.items()).toEqual(['eggs', 'milk']);
+});
+
+test('Closed middleware stops listening', () => {
+  const hub = createMemorySyncHub();
+  const a = createTab(hub.connect(), 'a');
+  const b = createTab(hub.connect(), 'b');
+
+  b.middleware.close();
+  a.store.dispatch(todos.actions.add('milk'));
+  expect(b.items()).toEqual([]);
+});
+
+test('Storage events carry messages between tabs', () => {
+  const transport = createStorageEventTransport('sync', localStorage);
+  const listener = jest.fn();
+  const unsubscribe = transport.subscribe(listener);
+
+  const message: SyncMessage = {
+    origin: 'other',
+    backup: { todos: ['milk'] },
+    timestamps: { todos: 1 },
+  };
+  transport.post(message);
+  window.dispatchEvent(
+    new StorageEvent('storage', {
+      key: 'sync',
+      newValue: localStorage.getItem('sync'),
+      storageArea: localStorage,
+    })
+  );
+  expect(listener).toHaveBeenCalledWith(message);
+  unsubscribe();
+});
+
+test('Copied slices can be synced', () => {
+  const hub = createMemorySyncHub();
+  const copyInterface = { ui: CopySliceBackupInterface };
+  const tabs = ['a', 'b'].map(id => {
+    const store = configureStore({
+      reducer: createSyncReducer(
+        combineReducers({ todos: todos.reducer, ui: ui.reducer }),
+        copyInterface
+      ),
+      middleware: [
+        createSyncMiddleware<State>(copyInterface, hub.connect(), { id }),
+      ],
+    });
+    return store;
+  });
+
+  now = 1;
+  tabs[0].dispatch(ui.actions.toggle());
+  expect(tabs[1].getState().ui.open).toBe(true);
+});
+
+test('Slices that did not change keep their state', () => {
+  const hub = createMemorySyncHub();
+
+  // The ui slice is synced but doesn't store whether it's open
+  const uiBackupInterface: SliceBackupInterface<State['ui'], null> = {
+    save: () => null,
+    load: () => ({ open: false }),
+  };
+  const syncedInterface = {
+    todos: todosBackupInterface,
+    ui: uiBackupInterface,
+  };
+  const tabs = ['a', 'b'].map(id =>
+    configureStore({
+      reducer: createSyncReducer(
+        combineReducers({ todos: todos.reducer, ui: ui.reducer }),
+        syncedInterface
+      ),
+      middleware: [
+        createSyncMiddleware<State>(syncedInterface, hub.connect(), { id }),
+      ],
+    })
+  );
+
+  now = 1;
+  tabs[1].dispatch(ui.actions.toggle());
+  now = 2;
+  tabs[0].dispatch(todos.actions.add('milk'));
+  expect(tabs[1].getState().todos.items).toEqual(['milk']);
+  expect(tabs[1].getState().ui.open).toBe(true);
+});
+
+test('Closed middleware stops flushing when the page is hidden', () => {
+  const hub = createMemorySyncHub();
+  const a = createTab(hub.connect(), 'a', { debounce: 1000 });
+  const b = createTab(hub.connect(), 'b');
+  const removeEventListener = jest.spyOn(window, 'removeEventListener');
+
+  a.store.dispatch(todos.actions.add('milk'));
+  a.middleware.close();
+  expect(removeEventListener).toHaveBeenCalledWith(
+    'pagehide',
+    expect.any(Function)
+  );
+
+  window.dispatchEvent(new Event('pagehide'));
+  expect(b.items()).toEqual([]);
+});
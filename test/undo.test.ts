@@ -1,9 +1,40 @@
+import { AnyAction, combineReducers, Reducer } from '@reduxjs/toolkit';
 import {
   createBackup,
   SliceBackupInterface,
   StateBackupInterface,
 } from '../src/backup';
-import { createUndoableReducer, redo, undo } from '../src/undo';
+import { CopySliceBackupInterface } from '../src/def';
+import * as diff from '../src/diff';
+import { UndoBranchError, UndoRangeError } from '../src/errors';
+import {
+  beginTransaction,
+  cancelTransaction,
+  clearHistory,
+  commitTransaction,
+  createUndoableReducer,
+  getMomentAt,
+  getRedoLabel,
+  getUndoBranches,
+  getUndoInfo,
+  getUndoLabel,
+  iterateUndoBranch,
+  iterateUndoHistory,
+  jumpToMoment,
+  redo,
+  redoTo,
+  switchBranch,
+  undo,
+  undoTo,
+  UndoableReducerOptions,
+  UndoableState,
+} from '../src/undo';
+import {
+  estimateDeltaSize,
+  estimateMomentSize,
+  pruneKeepEveryNth,
+  pruneMergeOldest,
+} from '../src/prune';
 
 describe('A simple undoable state', () => {
   type Slice = { a: string; b: string };
@@ -174,3 +205,803 @@ describe('A simple undoable state', () => {
     expect(next.slice).toEqual(final.slice); // we should be back at the final moment
   });
 });
+
+describe('Undo transactions', () => {
+  type State = { count: { value: number } };
+
+  const stateBackupInterface: StateBackupInterface<State> = {
+    count: {
+      save: (count: State['count']) => count.value,
+      load: (stored: number | undefined) =>
+        stored === undefined ? undefined : { value: stored },
+    },
+  };
+
+  // Reducer only changes the state on undoable actions
+  const reducer = (
+    state: State = { count: { value: 0 } },
+    action: { type: string }
+  ): State =>
+    action.type.indexOf('/undoable/') !== -1
+      ? { count: { value: state.count.value + 1 } }
+      : state;
+
+  const undoReducer = createUndoableReducer(reducer, stateBackupInterface);
+
+  test('Transactions group undoable actions into one moment', () => {
+    const state = undoReducer(undefined, { type: 'action' });
+    let next = undoReducer(state, beginTransaction());
+    for (let i = 0; i < 5; i++) {
+      next = undoReducer(next, { type: '/undoable/action' });
+    }
+    expect(next.history).toHaveLength(0);
+
+    next = undoReducer(next, commitTransaction());
+    expect(next.history).toHaveLength(1);
+    expect(next.undoMeta.transactions).toHaveLength(0);
+
+    // Undo the whole transaction at once
+    const undone = undoReducer(next, undo);
+    expect(undone.count).toEqual(state.count);
+  });
+
+  test('Cancelled transactions roll back the state', () => {
+    const state = undoReducer(undefined, { type: 'action' });
+    let next = undoReducer(state, { type: '/undoable/action' });
+    const before = next;
+
+    next = undoReducer(next, beginTransaction());
+    next = undoReducer(next, { type: '/undoable/action' });
+    next = undoReducer(next, { type: '/undoable/action' });
+    next = undoReducer(next, cancelTransaction());
+
+    expect(next.count).toEqual(before.count);
+    expect(next.history).toHaveLength(1);
+  });
+
+  test('Transactions can be nested', () => {
+    const state = undoReducer(undefined, { type: 'action' });
+    let next = undoReducer(state, beginTransaction());
+    next = undoReducer(next, { type: '/undoable/action' });
+    const outer = next;
+
+    // Cancelling the inner transaction only rolls back the inner actions
+    next = undoReducer(next, beginTransaction());
+    next = undoReducer(next, { type: '/undoable/action' });
+    next = undoReducer(next, cancelTransaction());
+    expect(next.count).toEqual(outer.count);
+
+    // Committing the inner transaction doesn't create a moment
+    next = undoReducer(next, beginTransaction());
+    next = undoReducer(next, { type: '/undoable/action' });
+    next = undoReducer(next, commitTransaction());
+    expect(next.history).toHaveLength(0);
+
+    next = undoReducer(next, commitTransaction());
+    expect(next.history).toHaveLength(1);
+    expect(undoReducer(next, undo).count).toEqual(state.count);
+  });
+
+  test('Empty transactions do not create moments', () => {
+    const state = undoReducer(undefined, { type: 'action' });
+    let next = undoReducer(state, beginTransaction());
+    next = undoReducer(next, commitTransaction());
+    expect(next.history).toHaveLength(0);
+  });
+
+  test('Undo is ignored during a transaction', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const state = undoReducer(undefined, { type: 'action' });
+    let next = undoReducer(state, { type: '/undoable/action' });
+    next = undoReducer(next, beginTransaction());
+    next = undoReducer(next, { type: '/undoable/action' });
+
+    expect(undoReducer(next, undo)).toEqual(next);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  test('Slices can share names with undo data', () => {
+    const transactions = (state: number[] = [1], action: AnyAction) =>
+      action.type === 'ledger/undoable/add'
+        ? [...state, action.payload]
+        : state;
+    const reducer = combineReducers({ transactions });
+    const ledgerReducer = createUndoableReducer(reducer, {
+      transactions: CopySliceBackupInterface,
+    });
+
+    let state = ledgerReducer(undefined, { type: 'init' });
+    expect(state.transactions).toEqual([1]);
+    state = ledgerReducer(state, { type: 'ledger/undoable/add', payload: 2 });
+    expect(state.transactions).toEqual([1, 2]);
+    expect(ledgerReducer(state, undo()).transactions).toEqual([1]);
+  });
+});
+
+describe('Coalescing undoable actions', () => {
+  type State = { text: { value: string } };
+
+  const stateBackupInterface: StateBackupInterface<State> = {
+    text: {
+      save: (text: State['text']) => text.value,
+      load: (stored: string | undefined) =>
+        stored === undefined ? undefined : { value: stored },
+    },
+  };
+
+  // Each undoable action types a letter
+  const reducer = (
+    state: State = { text: { value: '' } },
+    action: { type: string; meta?: { coalesceKey?: string } }
+  ): State =>
+    action.type.indexOf('/undoable/') !== -1
+      ? { text: { value: state.text.value + 'a' } }
+      : state;
+
+  const undoReducer = createUndoableReducer(reducer, stateBackupInterface, {
+    coalesce: { window: 1000 },
+  });
+
+  let now = 0;
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const type = (
+    state: ReturnType<typeof undoReducer>,
+    count: number,
+    action: { type: string; meta?: { coalesceKey?: string } } = {
+      type: 'text/undoable/type',
+    }
+  ) => {
+    for (let i = 0; i < count; i++) {
+      now += 100;
+      state = undoReducer(state, action);
+    }
+    return state;
+  };
+
+  test('Rapid actions of the same type are merged', () => {
+    const state = undoReducer(undefined, { type: 'init' });
+    const next = type(state, 5);
+    expect(next.text.value).toBe('aaaaa');
+    expect(next.history).toHaveLength(1);
+
+    const undone = undoReducer(next, undo());
+    expect(undone.text).toEqual(state.text);
+    expect(undoReducer(undone, redo()).text).toEqual(next.text);
+  });
+
+  test('Actions outside the window create new moments', () => {
+    let next = type(undoReducer(undefined, { type: 'init' }), 3);
+    now += 5000;
+    next = type(next, 3);
+    expect(next.history).toHaveLength(2);
+
+    const undone = undoReducer(next, undo());
+    expect(undone.text.value).toBe('aaa');
+  });
+
+  test('Different coalesce keys create new moments', () => {
+    let next = type(undoReducer(undefined, { type: 'init' }), 2);
+    next = type(next, 2, {
+      type: 'text/undoable/type',
+      meta: { coalesceKey: 'field2' },
+    });
+    next = type(next, 2, { type: 'text/undoable/paste' });
+    expect(next.history).toHaveLength(3);
+  });
+
+  test('Actions after an undo are not merged into the restored moment', () => {
+    let next = type(undoReducer(undefined, { type: 'init' }), 2);
+    next = undoReducer(next, { type: 'text/undoable/other' });
+    next = undoReducer(next, undo());
+    next = type(next, 1);
+    expect(next.history).toHaveLength(2);
+    expect(undoReducer(next, undo()).text.value).toBe('aa');
+  });
+});
+
+describe('Jumping through history', () => {
+  type State = { count: { value: number } };
+
+  const stateBackupInterface: StateBackupInterface<State> = {
+    count: {
+      save: (count: State['count']) => count.value,
+      load: (stored: number | undefined) =>
+        stored === undefined ? undefined : { value: stored },
+    },
+  };
+
+  const reducer = (
+    state: State = { count: { value: 0 } },
+    action: { type: string }
+  ): State =>
+    action.type.indexOf('/undoable/') !== -1
+      ? { count: { value: state.count.value + 1 } }
+      : state;
+
+  const undoReducer = createUndoableReducer(reducer, stateBackupInterface);
+
+  // Creates a state with a count of 10 and 10 history moments
+  const createState = () => {
+    let state = undoReducer(undefined, { type: 'init' });
+    for (let i = 0; i < 10; i++) {
+      state = undoReducer(state, { type: 'count/undoable/increment' });
+    }
+    return state;
+  };
+
+  test('Can undo and redo to an index', () => {
+    let state = undoReducer(createState(), undoTo(3));
+    expect(state.count.value).toBe(6);
+    expect(state.history).toHaveLength(6);
+    expect(state.future).toHaveLength(4);
+
+    state = undoReducer(state, redoTo(1));
+    expect(state.count.value).toBe(8);
+    expect(state.future).toHaveLength(2);
+
+    // Index 0 is the same as a single undo or redo
+    expect(undoReducer(state, undoTo(0))).toEqual(undoReducer(state, undo()));
+    expect(undoReducer(state, redoTo(0))).toEqual(undoReducer(state, redo()));
+  });
+
+  test('Can jump by an offset', () => {
+    let state = undoReducer(createState(), jumpToMoment(-10));
+    expect(state.count.value).toBe(0);
+
+    state = undoReducer(state, jumpToMoment(4));
+    expect(state.count.value).toBe(4);
+
+    expect(undoReducer(state, jumpToMoment(0))).toEqual(state);
+  });
+
+  test('Out of range moments are ignored and reported', () => {
+    const onInvalidAction = jest.fn();
+    const reportingReducer = createUndoableReducer(
+      reducer,
+      stateBackupInterface,
+      { onInvalidAction }
+    );
+    const state = createState();
+    expect(reportingReducer(state, undoTo(10))).toEqual(state);
+    expect(reportingReducer(state, undoTo(-1))).toEqual(state);
+    expect(reportingReducer(state, redoTo(0))).toEqual(state);
+    expect(reportingReducer(state, jumpToMoment(1))).toEqual(state);
+    expect(reportingReducer(state, jumpToMoment(-1.5))).toEqual(state);
+    expect(onInvalidAction).toHaveBeenCalledTimes(5);
+    for (const [error] of onInvalidAction.mock.calls) {
+      expect(error).toBeInstanceOf(UndoRangeError);
+    }
+  });
+
+  test('Undo and redo do nothing at the ends of the history', () => {
+    const state = createState();
+    expect(undoReducer(state, redo()).count).toEqual(state.count);
+
+    const start = undoReducer(state, jumpToMoment(-10));
+    expect(undoReducer(start, undo()).count).toEqual(start.count);
+  });
+
+  test('Can clear the history', () => {
+    let state = undoReducer(createState(), undoTo(4));
+    state = undoReducer(state, clearHistory());
+    expect(state.history).toHaveLength(0);
+    expect(state.future).toHaveLength(0);
+    expect(state.count.value).toBe(5);
+
+    state = undoReducer(state, { type: 'count/undoable/increment' });
+    expect(undoReducer(state, undo()).count.value).toBe(5);
+  });
+});
+
+describe('Branching undo history', () => {
+  type State = { text: { value: string } };
+
+  const stateBackupInterface: StateBackupInterface<State> = {
+    text: {
+      save: (text: State['text']) => text.value,
+      load: (stored: string | undefined) =>
+        stored === undefined ? undefined : { value: stored },
+    },
+  };
+
+  // Undoable actions append their payload
+  const reducer = (
+    state: State = { text: { value: '' } },
+    action: { type: string; payload?: any }
+  ): State =>
+    action.type.indexOf('/undoable/') !== -1
+      ? { text: { value: state.text.value + action.payload } }
+      : state;
+
+  const undoReducer = createUndoableReducer(reducer, stateBackupInterface, {
+    branching: true,
+  });
+  type UndoState = ReturnType<typeof undoReducer>;
+
+  const write = (state: UndoState, letters: string) => {
+    for (const payload of letters) {
+      state = undoReducer(state, { type: 'text/undoable/write', payload });
+    }
+    return state;
+  };
+
+  test('The future is kept as a branch', () => {
+    let state = write(undoReducer(undefined, { type: 'init' }), 'abc');
+    state = undoReducer(state, undoTo(1));
+    expect(getUndoBranches(state)).toHaveLength(0);
+
+    // Writing after the undo abandons "bc"
+    state = write(state, 'x');
+    expect(state.text.value).toBe('ax');
+    expect(state.future).toHaveLength(0);
+
+    // Go back to where we branched and look at the old branch
+    state = undoReducer(state, undo());
+    expect(getUndoBranches(state)).toEqual([
+      { index: 0, length: 2, branchCount: 0 },
+    ]);
+    const moments = Array.from(iterateUndoBranch(state, 0));
+    expect(moments).toEqual([{ text: 'ab' }, { text: 'abc' }]);
+  });
+
+  test('Can switch between branches', () => {
+    let state = write(undoReducer(undefined, { type: 'init' }), 'abc');
+    state = undoReducer(state, undoTo(1));
+    state = write(state, 'xy');
+    state = undoReducer(state, undoTo(1));
+    expect(state.text.value).toBe('a');
+
+    // Switch to the old branch and redo along it
+    state = undoReducer(state, switchBranch(0));
+    state = undoReducer(state, redoTo(1));
+    expect(state.text.value).toBe('abc');
+
+    // The new branch is now the abandoned one
+    state = undoReducer(state, undoTo(1));
+    expect(Array.from(iterateUndoBranch(state, 0))).toEqual([
+      { text: 'ax' },
+      { text: 'axy' },
+    ]);
+    state = undoReducer(state, switchBranch(0));
+    state = undoReducer(state, redoTo(1));
+    expect(state.text.value).toBe('axy');
+  });
+
+  test('Branches of branches are kept', () => {
+    let state = write(undoReducer(undefined, { type: 'init' }), 'abc');
+
+    // Branch at "ab"
+    state = undoReducer(state, undo());
+    state = write(state, 'x');
+
+    // Branch again at "a", abandoning the branch with both "abc" and "abx"
+    state = undoReducer(state, undoTo(1));
+    state = write(state, 'y');
+    state = undoReducer(state, undo());
+    expect(getUndoBranches(state)).toEqual([
+      { index: 0, length: 2, branchCount: 1 },
+    ]);
+
+    // Switch back and find the nested branch one moment along
+    state = undoReducer(state, switchBranch(0));
+    state = undoReducer(state, redo());
+    expect(state.text.value).toBe('ab');
+    expect(Array.from(iterateUndoBranch(state, 0))).toEqual([{ text: 'abc' }]);
+  });
+
+  test('Missing branches are ignored and reported', () => {
+    const onInvalidAction = jest.fn();
+    const reportingReducer = createUndoableReducer(
+      reducer,
+      stateBackupInterface,
+      { branching: true, onInvalidAction }
+    );
+    const state = write(undoReducer(undefined, { type: 'init' }), 'ab');
+    expect(reportingReducer(state, switchBranch(0))).toEqual(state);
+    expect(onInvalidAction).toHaveBeenCalledWith(expect.any(UndoBranchError));
+
+    // Selectors still throw
+    expect(() => iterateUndoBranch(state, 1)).toThrow(UndoBranchError);
+  });
+
+  test('Branches are dropped with the history they leave from', () => {
+    const limitedReducer = createUndoableReducer(
+      reducer,
+      stateBackupInterface,
+      { branching: true, historyLimit: 2 }
+    );
+    let state = limitedReducer(undefined, { type: 'init' });
+    for (const payload of 'abc') {
+      state = limitedReducer(state, { type: 'text/undoable/write', payload });
+    }
+    state = limitedReducer(state, undo());
+    state = limitedReducer(state, {
+      type: 'text/undoable/write',
+      payload: 'x',
+    });
+    expect(state.undoMeta.branches).toHaveLength(1);
+
+    // Pushing the branch point out of the history drops its branch
+    for (const payload of 'yzw') {
+      state = limitedReducer(state, { type: 'text/undoable/write', payload });
+    }
+    expect(state.undoMeta.branches).toHaveLength(0);
+  });
+
+  test('Without branching the future is discarded', () => {
+    const linearReducer = createUndoableReducer(reducer, stateBackupInterface);
+    let state = linearReducer(undefined, { type: 'init' });
+    state = linearReducer(state, { type: 'text/undoable/write', payload: 'a' });
+    state = linearReducer(state, undo());
+    state = linearReducer(state, { type: 'text/undoable/write', payload: 'b' });
+    expect(state.undoMeta.branches).toHaveLength(0);
+  });
+});
+
+describe('Pruning history', () => {
+  type State = { text: { value: string } };
+
+  const stateBackupInterface: StateBackupInterface<State> = {
+    text: {
+      save: (slice: { value: string }) => slice.value,
+      load: (stored: string | undefined) =>
+        stored === undefined ? undefined : { value: stored },
+    },
+  };
+
+  // Undoable actions append their payload
+  const reducer = (
+    state: State = { text: { value: '' } },
+    action: AnyAction
+  ): State =>
+    action.type.indexOf('/undoable/') !== -1
+      ? { text: { value: state.text.value + action.payload } }
+      : state;
+
+  type UndoState = UndoableState<State, StateBackupInterface<State>>;
+  const createReducer = (options: UndoableReducerOptions<AnyAction>) =>
+    createUndoableReducer(reducer, stateBackupInterface, options);
+
+  const write = (
+    undoReducer: Reducer<UndoState>,
+    payloads: string[],
+    state = undoReducer(undefined, { type: 'init' })
+  ) => {
+    for (const payload of payloads) {
+      state = undoReducer(state, { type: 'text/undoable/write', payload });
+    }
+    return state;
+  };
+
+  const history = (state: UndoState) =>
+    Array.from(iterateUndoHistory(state)).map(moment => moment.text);
+
+  test('The history and future are capped to the history limit', () => {
+    const undoReducer = createReducer({
+      historyLimit: 2,
+    });
+    let state = write(undoReducer, ['a', 'b', 'c', 'd']);
+    expect(history(state)).toEqual(['abc', 'ab']);
+
+    state = undoReducer(state, undoTo(1));
+    expect(state.text.value).toBe('ab');
+    expect(state.future).toHaveLength(2);
+  });
+
+  test('The history is capped to the history budget', () => {
+    const undoReducer = createReducer({
+      historyBudget: 100,
+    });
+    const state = write(
+      undoReducer,
+      ['a', 'b', 'c', 'd'].map(letter => letter.repeat(20))
+    );
+    const size = state.history
+      .map(estimateDeltaSize)
+      .reduce((a, b) => a + b, 0);
+    expect(size).toBeLessThanOrEqual(100);
+    expect(state.history.length).toBeGreaterThan(0);
+    expect(state.history.length).toBeLessThan(4);
+  });
+
+  test('Merging keeps the oldest moment reachable', () => {
+    const undoReducer = createReducer({
+      historyLimit: 3,
+      pruning: pruneMergeOldest(),
+    });
+    const state = write(undoReducer, ['a', 'b', 'c', 'd', 'e']);
+    expect(history(state)).toEqual(['abcd', 'abc', '']);
+  });
+
+  test('Old moments can be thinned out', () => {
+    const undoReducer = createReducer({
+      historyLimit: 5,
+      pruning: pruneKeepEveryNth(2, 2),
+    });
+    const state = write(undoReducer, ['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(history(state)).toEqual(['abcde', 'abcd', 'ab', '']);
+  });
+
+  test('Pruned moments take their branches with them', () => {
+    const undoReducer = createReducer({
+      historyLimit: 3,
+      pruning: pruneMergeOldest(),
+      branching: true,
+    });
+    let state = write(undoReducer, ['a', 'b']);
+    state = undoReducer(state, undo());
+    state = write(undoReducer, ['x'], state);
+    expect(state.undoMeta.branches).toEqual([
+      expect.objectContaining({ depth: 1 }),
+    ]);
+
+    // "a" is merged away, so the branch leaving "a" goes with it
+    state = write(undoReducer, ['y', 'z'], state);
+    expect(history(state)).toEqual(['axy', 'ax', '']);
+    expect(state.undoMeta.branches).toHaveLength(0);
+  });
+});
+
+describe('Labeled history', () => {
+  type State = { text: { value: string } };
+  type UndoState = UndoableState<State, StateBackupInterface<State>>;
+
+  const stateBackupInterface: StateBackupInterface<State> = {
+    text: {
+      save: (slice: { value: string }) => slice.value,
+      load: (stored: string | undefined) =>
+        stored === undefined ? undefined : { value: stored },
+    },
+  };
+
+  // Undoable actions append their payload
+  const reducer = (
+    state: State = { text: { value: '' } },
+    action: AnyAction
+  ): State =>
+    action.type.indexOf('/undoable/') !== -1
+      ? { text: { value: state.text.value + action.payload } }
+      : state;
+
+  const undoReducer = createUndoableReducer(reducer, stateBackupInterface, {
+    label: action => action.meta?.label ?? `Write ${action.payload}`,
+    data: action => action.payload,
+  });
+
+  const write = (state: UndoState, payload: string, label?: string) =>
+    undoReducer(state, {
+      type: 'text/undoable/write',
+      payload,
+      meta: { label },
+    });
+
+  let now = 0;
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('Moments are labeled with the action that created them', () => {
+    let state = undoReducer(undefined, { type: 'init' });
+    expect(getUndoLabel(state)).toBeUndefined();
+
+    state = write(state, 'a');
+    state = write(state, 'b', 'Bold');
+    expect(getUndoLabel(state)).toBe('Bold');
+    expect(getUndoInfo(state)).toEqual({
+      type: 'text/undoable/write',
+      label: 'Bold',
+      timestamp: 1000,
+      data: 'b',
+    });
+    expect(state.undoMeta.historyInfo).toHaveLength(state.history.length);
+  });
+
+  test('Labels follow undo and redo', () => {
+    let state = undoReducer(undefined, { type: 'init' });
+    for (const payload of 'abc') {
+      state = write(state, payload);
+    }
+
+    state = undoReducer(state, undoTo(1));
+    expect(getUndoLabel(state)).toBe('Write a');
+    expect(getRedoLabel(state)).toBe('Write b');
+    expect(state.undoMeta.futureInfo.map(info => info?.label)).toEqual([
+      'Write b',
+      'Write c',
+    ]);
+
+    state = undoReducer(state, redo());
+    expect(getUndoLabel(state)).toBe('Write b');
+    expect(getRedoLabel(state)).toBe('Write c');
+
+    // A new moment clears the redo labels
+    state = write(state, 'x');
+    expect(getRedoLabel(state)).toBeUndefined();
+    expect(state.undoMeta.historyInfo.map(info => info?.label)).toEqual([
+      'Write x',
+      'Write b',
+      'Write a',
+    ]);
+  });
+
+  test('Transactions are labeled when committed', () => {
+    let state = undoReducer(undefined, { type: 'init' });
+    state = undoReducer(state, beginTransaction());
+    state = write(state, 'a');
+    state = write(state, 'b');
+    state = undoReducer(state, commitTransaction('Write ab'));
+    expect(getUndoLabel(state)).toBe('Write ab');
+    expect(state.undoMeta.historyInfo).toHaveLength(1);
+  });
+
+  test('Labels are pruned with their moments', () => {
+    const limitedReducer = createUndoableReducer(
+      reducer,
+      stateBackupInterface,
+      {
+        historyLimit: 2,
+        label: action => action.payload,
+      }
+    );
+    let state = limitedReducer(undefined, { type: 'init' });
+    for (const payload of 'abcd') {
+      state = limitedReducer(state, { type: 'text/undoable/write', payload });
+    }
+    expect(state.undoMeta.historyInfo.map(info => info?.label)).toEqual([
+      'd',
+      'c',
+    ]);
+  });
+});
+
+describe('History checkpoints', () => {
+  type State = { text: { value: string } };
+  type UndoState = UndoableState<State, StateBackupInterface<State>>;
+
+  const stateBackupInterface: StateBackupInterface<State> = {
+    text: {
+      save: (slice: { value: string }) => slice.value,
+      load: (stored: string | undefined) =>
+        stored === undefined ? undefined : { value: stored },
+    },
+  };
+
+  // Undoable actions append their payload
+  const reducer = (
+    state: State = { text: { value: '' } },
+    action: AnyAction
+  ): State =>
+    action.type.indexOf('/undoable/') !== -1
+      ? { text: { value: state.text.value + action.payload } }
+      : state;
+
+  const createReducer = (options: UndoableReducerOptions<AnyAction>) =>
+    createUndoableReducer(reducer, stateBackupInterface, options);
+
+  const write = (undoReducer: Reducer<UndoState>, count: number) => {
+    let state = undoReducer(undefined, { type: 'init' });
+    for (let i = 0; i < count; i++) {
+      state = undoReducer(state, { type: 'text/undoable/write', payload: 'x' });
+    }
+    return state;
+  };
+
+  const text = (state: UndoState, index: number) =>
+    getMomentAt(state, index)?.text;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('Are kept every interval', () => {
+    const state = write(createReducer({ checkpoints: { interval: 10 } }), 50);
+    expect(
+      state.undoMeta.checkpoints.map(checkpoint => checkpoint.depth)
+    ).toEqual([10, 20, 30, 40]);
+    expect(state.undoMeta.checkpoints[0].moment).toEqual({
+      text: 'x'.repeat(10),
+    });
+  });
+
+  test('Bound the diffs needed to get a moment', () => {
+    const state = write(createReducer({ checkpoints: { interval: 10 } }), 50);
+    const restore = jest.spyOn(diff, 'restore');
+    expect(text(state, 44)).toBe('xxxxx');
+    expect(restore.mock.calls.length).toBeLessThanOrEqual(10);
+
+    // Every moment matches the history
+    Array.from(iterateUndoHistory(state)).forEach((moment, i) =>
+      expect(getMomentAt(state, i)).toEqual(moment)
+    );
+  });
+
+  test('Can be kept by size', () => {
+    const state = write(createReducer({ checkpoints: { bytes: 100 } }), 50);
+    const size = estimateDeltaSize(state.history[0]);
+    expect(state.undoMeta.checkpoints.length).toBeGreaterThan(0);
+    state.undoMeta.checkpoints.forEach((checkpoint, i) => {
+      const previous = i === 0 ? 0 : state.undoMeta.checkpoints[i - 1].depth;
+      expect((checkpoint.depth - previous) * size).toBeGreaterThanOrEqual(100);
+    });
+  });
+
+  test('Speed up undoing and redoing far', () => {
+    const undoReducer = createReducer({ checkpoints: { interval: 10 } });
+    let state = write(undoReducer, 50);
+    const restore = jest.spyOn(diff, 'restore');
+    state = undoReducer(state, undoTo(44));
+    expect(state.text.value).toBe('xxxxx');
+    expect(restore.mock.calls.length).toBeLessThanOrEqual(10);
+
+    // Checkpoints in the future are used to redo
+    restore.mockClear();
+    state = undoReducer(state, redoTo(39));
+    expect(state.text.value).toBe('x'.repeat(45));
+    expect(restore.mock.calls.length).toBeLessThanOrEqual(10);
+    expect(text(state, 0)).toBe('x'.repeat(44));
+  });
+
+  test('Are dropped with the future', () => {
+    const undoReducer = createReducer({ checkpoints: { interval: 10 } });
+    let state = write(undoReducer, 50);
+    state = undoReducer(state, undoTo(34));
+    state = undoReducer(state, { type: 'text/undoable/write', payload: 'y' });
+    expect(
+      state.undoMeta.checkpoints.map(checkpoint => checkpoint.depth)
+    ).toEqual([10]);
+    expect(text(state, 0)).toBe('x'.repeat(15));
+  });
+
+  test('Move with pruned moments', () => {
+    const state = write(
+      createReducer({ historyLimit: 25, checkpoints: { interval: 10 } }),
+      50
+    );
+    expect(state.history).toHaveLength(25);
+    state.undoMeta.checkpoints.forEach(checkpoint =>
+      expect(checkpoint.moment).toEqual({
+        text: 'x'.repeat(checkpoint.depth + 25),
+      })
+    );
+    expect(text(state, 24)).toBe('x'.repeat(25));
+  });
+
+  test('Fit in the history budget', () => {
+    const state = write(
+      createReducer({ historyBudget: 3500, checkpoints: { interval: 5 } }),
+      50
+    );
+    const diffs = state.history
+      .map(estimateDeltaSize)
+      .reduce((a, b) => a + b, 0);
+    const checkpoints = state.undoMeta.checkpoints
+      .map(checkpoint => estimateMomentSize(checkpoint.moment))
+      .reduce((a, b) => a + b, 0);
+    expect(state.undoMeta.checkpoints.length).toBeGreaterThan(0);
+    expect(diffs + checkpoints).toBeLessThanOrEqual(3500);
+
+    // Moments are kept over checkpoints
+    expect(state.history).toHaveLength(50);
+    expect(state.undoMeta.checkpoints.length).toBeLessThan(9);
+  });
+
+  test('Getting missing moments throws', () => {
+    const state = write(createReducer({ checkpoints: { interval: 10 } }), 5);
+    expect(() => getMomentAt(state, 5)).toThrow(UndoRangeError);
+    expect(() => getMomentAt(state, -1)).toThrow(UndoRangeError);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  loadBackup,
+  loadBackupWithReport,
+  SliceBackupInterface,
+} from '../src/backup';
+import { BackupValidationError, SliceLoadError } from '../src/errors';
+import {
+  isArrayOf,
+  isBoolean,
+  isLiteral,
+  isNumber,
+  isObjectOf,
+  isOneOf,
+  isOptional,
+  isRecordOf,
+  isString,
+  validated,
+  ValidatedType,
+} from '../src/validate';
+
+const isStoredPerson = isObjectOf({
+  name: isString,
+  tags: isArrayOf(isString),
+  age: isOptional(isNumber),
+  role: isLiteral('admin', 'user'),
+});
+
+interface Person {
+  name: string;
+  tags: Set<string>;
+  age: number;
+  admin: boolean;
+}
+
+// The stored type is given by hand
+const personBackupInterface: SliceBackupInterface<
+  Person,
+  ValidatedType<typeof isStoredPerson>
+> = {
+  validate: isStoredPerson,
+  save: person => ({
+    name: person.name,
+    tags: Array.from(person.tags),
+    age: person.age,
+    role: person.admin ? 'admin' : 'user',
+  }),
+  load: stored =>
+    stored && {
+      name: stored.name,
+      tags: new Set(stored.tags),
+      age: stored.age ?? 0,
+      admin: stored.role === 'admin',
+    },
+};
+
+test('Validators check primitives', () => {
+  expect(isString('a')).toBe(true);
+  expect(isString(1)).toBe(false);
+  expect(isNumber(1)).toBe(true);
+  expect(isBoolean(false)).toBe(true);
+  expect(isBoolean(null)).toBe(false);
+  expect(isOneOf<string | number>(isString, isNumber)(1)).toBe(true);
+});
+
+test('Validators check objects, arrays, and optional fields', () => {
+  expect(isStoredPerson({ name: 'a', tags: ['b'], role: 'user' })).toBe(true);
+  expect(
+    isStoredPerson({ name: 'a', tags: ['b'], role: 'user', age: 'old' })
+  ).toBe(false);
+  expect(isStoredPerson({ name: 'a', tags: [1], role: 'user' })).toBe(false);
+  expect(isStoredPerson({ name: 'a', tags: [], role: 'owner' })).toBe(false);
+  expect(isStoredPerson([])).toBe(false);
+  expect(isRecordOf(isNumber)({ a: 1, b: 2 })).toBe(true);
+  expect(isRecordOf(isNumber)({ a: '1' })).toBe(false);
+});
+
+describe('Loading validated slices', () => {
+  const backupInterface = { person: personBackupInterface };
+
+  test('Valid data is loaded', () => {
+    const loaded = loadBackup({}, backupInterface, {
+      person: { name: 'Ada', tags: ['math'], role: 'admin' },
+    });
+    expect(loaded.person).toEqual({
+      name: 'Ada',
+      tags: new Set(['math']),
+      age: 0,
+      admin: true,
+    });
+  });
+
+  test('Invalid data never reaches load', () => {
+    const load = jest.spyOn(personBackupInterface, 'load');
+    const report = loadBackupWithReport(
+      {},
+      backupInterface,
+      // Hand-edited storage
+      JSON.parse('{ "person": { "name": 7 } }'),
+      { onError: 'skip' }
+    );
+
+    expect(load).not.toHaveBeenCalled();
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0]).toBeInstanceOf(SliceLoadError);
+    expect(report.errors[0].path).toEqual(['person']);
+    expect(report.errors[0].cause).toBeInstanceOf(BackupValidationError);
+
+    load.mockRestore();
+  });
+});
+
+test('Stored types are inferred from validators', () => {
+  const backupInterface = validated(isStoredPerson)({
+    save: (person: Person) => ({
+      name: person.name,
+      tags: Array.from(person.tags),
+      role: person.admin ? 'admin' : 'user',
+    }),
+    load: stored => {
+      // Type checks: these fail to compile if stored isn't typed by the validator
+      const tags: string[] | undefined = stored?.tags;
+      const role: 'admin' | 'user' | undefined = stored?.role;
+      return (
+        stored && {
+          name: stored.name,
+          tags: new Set(tags),
+          age: stored.age ?? 0,
+          admin: role === 'admin',
+        }
+      );
+    },
+  });
+
+  const stored:
+    | ValidatedType<typeof isStoredPerson>
+    | undefined = backupInterface.save({
+    name: 'Ada',
+    tags: new Set(['math']),
+    age: 36,
+    admin: true,
+  });
+  expect(stored).toEqual({ name: 'Ada', tags: ['math'], role: 'admin' });
+  expect(backupInterface.validate).toBe(isStoredPerson);
+  expect(() =>
+    loadBackup(
+      {},
+      { person: backupInterface },
+      { person: { name: 'Ada' } as any }
+    )
+  ).toThrow(SliceLoadError);
+});
@@ -0,0 +1,161 @@
+import { createBackup, loadBackup } from '../src/backup';
+import { BackupVersionError } from '../src/errors';
+import {
+  createMigrationChain,
+  isVersionedBackup,
+  migrateBackup,
+} from '../src/version';
+
+describe('A state whose slice storage format changed', () => {
+  interface State {
+    name: { first: string; last: string };
+    score: number;
+    [i: string]: any;
+  }
+
+  type NameV0 = string;
+  type NameV1 = string[];
+  type NameV2 = { first: string; last: string };
+
+  // Version 0 stored "first last", version 1 stored [first, last]
+  const nameBackupInterface = {
+    save: (name: State['name']): NameV2 => name,
+    load: (stored: NameV2 | undefined) => stored,
+    migrations: createMigrationChain<NameV0>()
+      .then(v0 => v0.split(' '))
+      .then((v1: NameV1) => ({ first: v1[0], last: v1[1] })),
+  };
+
+  const scoreBackupInterface = {
+    save: (score: number) => score,
+    load: (stored: number | undefined) => stored,
+  };
+
+  const backupInterface = {
+    name: nameBackupInterface,
+    score: scoreBackupInterface,
+  };
+
+  const state: State = { name: { first: 'Ada', last: 'Lovelace' }, score: 3 };
+
+  test('Versioned backups record slice versions', () => {
+    const backup = createBackup(state, backupInterface, { version: 1 });
+    expect(backup.backupVersion).toBe(1);
+    expect(backup.sliceVersions).toEqual({ name: 2 });
+    expect(backup.data).toEqual(createBackup(state, backupInterface));
+  });
+
+  test('Bare backups with the same keys are not versioned', () => {
+    const bare: Record<string, unknown> = {
+      backupVersion: 1,
+      sliceVersions: {},
+      data: 'x',
+    };
+    expect(isVersionedBackup(bare)).toBe(false);
+    expect(isVersionedBackup(createBackup(state, backupInterface, {}))).toBe(
+      true
+    );
+  });
+
+  test('Versioned backups load without migrating', () => {
+    const backup = createBackup(state, backupInterface, {});
+    expect(loadBackup({}, backupInterface, backup)).toEqual(state);
+  });
+
+  test('Unversioned backups are migrated from version 0', () => {
+    const legacy = { name: 'Ada Lovelace', score: 3 } as any;
+    const loaded = loadBackup({}, backupInterface, legacy, {});
+    expect(loaded).toEqual(state);
+  });
+
+  test('Backups are migrated from their stored slice version', () => {
+    const backup = {
+      $versioned: 1 as const,
+      backupVersion: 0,
+      sliceVersions: { name: 1 },
+      data: { name: ['Ada', 'Lovelace'], score: 3 } as any,
+    };
+    expect(loadBackup({}, backupInterface, backup)).toEqual(state);
+  });
+
+  test('Global migrations run before slice migrations', () => {
+    const legacy = { fullName: 'Ada Lovelace', points: 3 } as any;
+    const migrated = migrateBackup(legacy, backupInterface, {
+      migrations: [(v0: any) => ({ name: v0.fullName, score: v0.points })],
+    });
+    expect(migrated).toEqual({
+      name: { first: 'Ada', last: 'Lovelace' },
+      score: 3,
+    });
+  });
+
+  test('Backups from newer versions are rejected', () => {
+    const backup = {
+      $versioned: 1 as const,
+      backupVersion: 0,
+      sliceVersions: { name: 3 },
+      data: createBackup(state, backupInterface),
+    };
+
+    expect(() => loadBackup({}, backupInterface, backup)).toThrow(
+      BackupVersionError
+    );
+
+    try {
+      loadBackup({}, backupInterface, backup);
+    } catch (error) {
+      expect(error.path).toEqual(['name']);
+      expect(error.storedVersion).toBe(3);
+      expect(error.currentVersion).toBe(2);
+    }
+  });
+
+  test('Versioned backups load without version options', () => {
+    // Slice migrations still run, but the global version isn't checked
+    const backup = createBackup(state, backupInterface, { version: 1 });
+    expect(loadBackup({}, backupInterface, backup)).toEqual(state);
+
+    const legacy = { name: 'Ada Lovelace', score: 3 } as any;
+    expect(loadBackup({}, backupInterface, legacy, { version: 1 })).toEqual(
+      state
+    );
+  });
+
+  test('Backups with a newer global version are rejected', () => {
+    const backup = createBackup(state, backupInterface, { version: 5 });
+    expect(() =>
+      loadBackup({}, backupInterface, backup, { version: 4 })
+    ).toThrow(BackupVersionError);
+  });
+});
+
+describe('A nested state with versioned slices', () => {
+  interface State {
+    settings: { volume: number; muted: boolean };
+    [i: string]: any;
+  }
+
+  const backupInterface = {
+    settings: {
+      volume: {
+        save: (volume: number) => volume,
+        load: (stored: number | undefined) => stored,
+        // Volume used to be stored as a percentage
+        migrations: [(percent: number) => percent / 100],
+      },
+      muted: {
+        save: (muted: boolean) => muted,
+        load: (stored: boolean | undefined) => stored,
+      },
+    },
+  };
+
+  test('Nested slices are versioned and migrated', () => {
+    const state: State = { settings: { volume: 0.5, muted: false } };
+    const backup = createBackup(state, backupInterface, {});
+    expect(backup.sliceVersions).toEqual({ settings: { volume: 1 } });
+
+    const legacy = { settings: { volume: 50, muted: false } } as any;
+    expect(loadBackup({}, backupInterface, legacy, {})).toEqual(state);
+  });
+});